@@ -0,0 +1,139 @@
+import { parseArgs } from 'node:util'
+import { initCaches } from '../src/cacheManager.ts'
+import {
+  captureFixture,
+  FIXTURES_DIR,
+  loadFixtures,
+  runFixture
+} from '../src/regression.ts'
+import type { RegressionResult } from '../src/types.ts'
+import { initWorkers, shutdownWorkers } from '../src/workerPool.ts'
+
+const USAGE = `Usage:
+  bun scripts/regression.ts capture <player url or id> [--sig <challenge>]... [--n <challenge>]... [--samples <count>] [--dir <path>]
+  bun scripts/regression.ts run [--filter <name>] [--dir <path>]
+
+capture  Stores a player from player_cache with sample challenges and the
+         current solver output as a fixture (downloads it if not cached).
+run      Re-solves every fixture offline and reports mismatches and timings.
+         Exits with 1 if any check fails or --filter matches nothing; with
+         no fixtures recorded yet there is nothing to check and it exits 0.`
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  allowPositionals: true,
+  options: {
+    sig: { type: 'string', multiple: true },
+    n: { type: 'string', multiple: true },
+    samples: { type: 'string' },
+    dir: { type: 'string' },
+    filter: { type: 'string' },
+    help: { type: 'boolean', short: 'h' }
+  }
+})
+
+const dir = values.dir || FIXTURES_DIR
+
+const capture = async (refs: string[]): Promise<number> => {
+  if (refs.length === 0) {
+    console.error(USAGE)
+    return 2
+  }
+  await initCaches()
+
+  let failed = 0
+  for (const ref of refs) {
+    try {
+      const fixture = await captureFixture(ref, {
+        sig: values.sig,
+        n: values.n,
+        samples: values.samples ? parseInt(values.samples, 10) : undefined,
+        dir
+      })
+      const count = fixture.requests.reduce(
+        (sum, r) => sum + r.challenges.length,
+        0
+      )
+      console.log(
+        `Captured ${fixture.name} (${count} challenges, ejs ${fixture.ejs_version})`
+      )
+    } catch (err) {
+      failed++
+      console.error(
+        `Failed to capture ${ref}: ${err instanceof Error ? err.message : err}`
+      )
+    }
+  }
+  return failed > 0 ? 1 : 0
+}
+
+const _report = (r: RegressionResult): void => {
+  const status = r.ok ? 'PASS' : 'FAIL'
+  console.log(
+    `${status}  ${r.fixture.padEnd(32)} ${r.mode.padEnd(12)} ${r.ms.toFixed(1).padStart(8)}ms`
+  )
+  if (r.error) console.log(`      ${r.error}`)
+  for (const m of r.mismatches) {
+    const where = m.challenge
+      ? `${m.type} ${JSON.stringify(m.challenge)}`
+      : m.type
+    console.log(
+      `      ${where}: expected ${JSON.stringify(m.expected)}, got ${JSON.stringify(m.actual)}`
+    )
+  }
+}
+
+const run = async (): Promise<number> => {
+  const fixtures = await loadFixtures(dir, values.filter)
+  if (fixtures.length === 0) {
+    if (values.filter) {
+      console.error(`No fixtures in ${dir} match ${values.filter}`)
+      return 1
+    }
+    console.log(
+      `No fixtures in ${dir}, nothing to check. Record some with: bun run regression:capture <player url or id>`
+    )
+    return 0
+  }
+
+  const results: RegressionResult[] = []
+  for (const loaded of fixtures) {
+    for (const result of await runFixture(loaded)) {
+      _report(result)
+      results.push(result)
+    }
+  }
+
+  const failed = results.filter((r) => !r.ok).length
+  console.log(
+    `\n${fixtures.length} fixtures, ${results.length} checks, ${failed} failed`
+  )
+  return failed > 0 ? 1 : 0
+}
+
+const main = async (): Promise<number> => {
+  const [command, ...args] = positionals
+  if (values.help || !command) {
+    console.log(USAGE)
+    return values.help ? 0 : 2
+  }
+
+  initWorkers()
+  try {
+    if (command === 'capture') return await capture(args)
+    if (command === 'run') return await run()
+    console.error(USAGE)
+    return 2
+  } finally {
+    shutdownWorkers()
+  }
+}
+
+// Exit explicitly: the cache cleanup timer would keep the process alive
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err)
+    process.exit(1)
+  }
+)
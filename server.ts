@@ -1,64 +1,209 @@
-import { serve, env } from "bun";
-import { initWorkers, shutdownWorkers } from "./src/workerPool.ts";
-import { initCaches } from "./src/cacheManager.ts";
+import { serve, type Server } from "bun";
+import { drainWorkers, initWorkers, poolHealth, shutdownWorkers } from "./src/workerPool.ts";
+import { closeCaches, initCaches } from "./src/cacheManager.ts";
 import { handleDecryptSignature } from "./src/handlers/decryptSignature.ts";
+import { handleAdminCache } from "./src/handlers/admin.ts";
+import { handleBatchDecrypt } from "./src/handlers/batchDecrypt.ts";
 import { handleGetSts } from "./src/handlers/getSts.ts";
 import { handleResolveUrl } from "./src/handlers/resolveUrl.ts";
-import { handleDocs, handleHealth } from "./src/handlers/docs.ts";
+import { handleDocs, handleHealth, handleOpenApi } from "./src/handlers/docs.ts";
+import { handleMetrics } from "./src/handlers/metrics.ts";
+import { handlePrewarm } from "./src/handlers/prewarm.ts";
+import { handleUploadPlayer } from "./src/handlers/players.ts";
+import { handleLivez, handleReadyz } from "./src/handlers/probes.ts";
+import { handleSolve } from "./src/handlers/solve.ts";
+import { counter, histogram } from "./src/metrics.ts";
+import { config, describeConfig, reloadConfig } from "./src/config.ts";
+import { runInScope, type RequestScope } from "./src/context.ts";
+import { createLogger } from "./src/logger.ts";
+import { prewarmRecent } from "./src/prewarm.ts";
+import { startDraining } from "./src/probes.ts";
 import { withValidation } from "./src/middleware.ts";
-import { errorResponse } from "./src/shared.ts";
+import { apiErrorResponse, errorResponse } from "./src/shared.ts";
+import { authenticate, loadApiKeys } from "./src/apiKeys.ts";
+import type { ApiKey } from "./src/types.ts";
 
-const API_TOKEN = env.API_TOKEN || "";
-const PORT = parseInt(env.PORT || "8001", 10);
-const HAS_TOKEN = !!API_TOKEN;
+// Scrapers can be given their own token so they don't need the API token
+const METRICS_TOKEN = config.auth.metrics_token;
+// Admin routes are only enabled when an admin token is configured
+const ADMIN_TOKEN = config.auth.admin_token;
+// Player uploads accept this token or the admin token, and are disabled without either
+const UPLOAD_TOKEN = config.auth.upload_token;
+const { host: HOST, port: PORT, prewarm_recent: PREWARM_RECENT } = config.server;
+// How long a shutdown waits for requests and solves before dropping them
+const SHUTDOWN_GRACE_PERIOD = config.server.shutdown_grace_period;
+// Incoming request IDs are echoed back only if they look like IDs
+const REQUEST_ID_RE = /^[\w.:-]{1,128}$/;
+const DEADLINE_RE = /^[1-9]\d{0,8}$/;
+
+const log = createLogger("http");
 
 const ROUTES = new Map<string, (req: Request) => Response | Promise<Response>>([
 	["/", handleDocs],
+	["/openapi.json", handleOpenApi],
 	["/health", handleHealth],
+	["/livez", handleLivez],
+	["/readyz", handleReadyz],
+	["/metrics", handleMetrics],
 	["/decrypt_signature", handleDecryptSignature],
+	["/batch_decrypt", handleBatchDecrypt],
 	["/get_sts", handleGetSts],
 	["/resolve_url", handleResolveUrl],
+	["/prewarm", handlePrewarm],
+	["/players", handleUploadPlayer],
+	["/solve", handleSolve],
 ]);
 
-const UNAUTHORIZED = errorResponse(HAS_TOKEN ? "Invalid API token" : "Missing API token", 200);
-const NOT_FOUND = errorResponse("Not Found", 404);
+// Orchestrator probes usually cannot send a token. The docs list every
+// route, admin ones included, so they are only public when asked for
+const PUBLIC_PATHS = new Set(["/livez", "/readyz", ...(config.server.public_docs ? ["/", "/openapi.json"] : [])]);
+const ADMIN_PREFIX = "/admin/cache";
 
-const handler = async (req: Request): Promise<Response> => {
-	const pathname = new URL(req.url).pathname;
+const isAdminPath = (pathname: string): boolean =>
+	pathname === ADMIN_PREFIX || pathname.startsWith(`${ADMIN_PREFIX}/`);
+
+const findRoute = (pathname: string) =>
+	isAdminPath(pathname) ? handleAdminCache : ROUTES.get(pathname);
 
-	if (HAS_TOKEN && req.headers.get("authorization") !== API_TOKEN) {
-		return UNAUTHORIZED;
+const httpRequests = counter("http_requests_total", "HTTP requests by route and status code");
+const httpDuration = histogram("http_request_duration_seconds", "HTTP request latency by route");
+
+const tokenCheck = (token: string | null, ...expected: string[]) =>
+	expected.some((e) => e && token === e)
+		? ({ ok: true } as const)
+		: ({ ok: false, code: "UNAUTHORIZED", error: token ? "Invalid API token" : "Missing API token" } as const);
+
+const authorize = (req: Request, pathname: string) => {
+	if (PUBLIC_PATHS.has(pathname)) return { ok: true } as const;
+	const token = req.headers.get("authorization");
+	if (isAdminPath(pathname)) return tokenCheck(token, ADMIN_TOKEN);
+	if (pathname === "/players") return tokenCheck(token, UPLOAD_TOKEN, ADMIN_TOKEN);
+	if (pathname === "/metrics" && METRICS_TOKEN) return tokenCheck(token, METRICS_TOKEN);
+	return authenticate(token, pathname);
+};
+
+const route = async (req: Request, pathname: string, remoteIp?: string): Promise<Response> => {
+	const auth = authorize(req, pathname);
+	if (!auth.ok) {
+		return errorResponse(auth.error, auth.code);
 	}
 
-	const fn = ROUTES.get(pathname);
-	if (!fn) return NOT_FOUND;
+	const fn = findRoute(pathname);
+	if (!fn) return errorResponse("Not Found", "NOT_FOUND");
 
+	const apiKey: ApiKey | undefined = "key" in auth ? auth.key : undefined;
 	try {
-		return await withValidation(fn)(req);
+		return await withValidation(fn)(req, { apiKey, remoteIp });
 	} catch (error) {
-		return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+		log.error("Unhandled error", { path: pathname, error });
+		return apiErrorResponse(error);
 	}
 };
 
+const handler = async (req: Request, server: Server<undefined>): Promise<Response> => {
+	const pathname = new URL(req.url).pathname;
+	// Unknown paths share one label to keep metric cardinality bounded
+	const label = ROUTES.has(pathname) ? pathname : isAdminPath(pathname) ? ADMIN_PREFIX : "unmatched";
+	const incoming = req.headers.get("x-request-id");
+	const requestId = incoming && REQUEST_ID_RE.test(incoming) ? incoming : crypto.randomUUID();
+	const done = httpDuration.startTimer();
+	const start = performance.now();
+
+	// X-Deadline-Ms is how long the client will wait, like timeout_ms in the body
+	const deadlineMs = req.headers.get("x-deadline-ms");
+	const badDeadline = deadlineMs !== null && !DEADLINE_RE.test(deadlineMs);
+	const scope: RequestScope = { requestId, signal: req.signal };
+	if (deadlineMs && !badDeadline) scope.deadline = Date.now() + parseInt(deadlineMs, 10);
+
+	return runInScope(scope, async () => {
+		const res = badDeadline
+			? errorResponse("X-Deadline-Ms must be a positive integer", "INVALID_REQUEST")
+			: await route(req, pathname, server.requestIP(req)?.address);
+		done({ route: label });
+		httpRequests.inc({ route: label, status: `${res.status}` });
+		res.headers.set("X-Request-Id", requestId);
+		// The answer is still correct, but came from a player past its TTL
+		if (scope.stale) res.headers.set("X-Player-Stale", "true");
+
+		const fields = {
+			method: req.method,
+			path: pathname,
+			status: res.status,
+			duration_ms: Math.round(performance.now() - start),
+		};
+		if (res.status >= 500) log.error("Request failed", fields);
+		else log.info("Request", fields);
+		return res;
+	});
+};
+
 const start = async (): Promise<void> => {
-	console.log(`Server starting at ${new Date().toISOString()}`);
+	log.info("Server starting");
+	log.info("Effective configuration", describeConfig());
+	await loadApiKeys();
 	await initCaches();
 	initWorkers();
 
-	const server = serve({ fetch: handler, port: PORT, reusePort: true });
-	console.log(`Listening on port ${PORT}`);
+	const server = serve({ fetch: handler, hostname: HOST, port: PORT, reusePort: true });
+	log.info(`Listening on ${HOST}:${PORT}`);
+
+	if (PREWARM_RECENT > 0) {
+		prewarmRecent(PREWARM_RECENT).catch((error) => log.error("Startup prewarm failed", { error }));
+	}
+
+	let stopping = false;
+	const shutdown = async (signal: string): Promise<void> => {
+		if (stopping) {
+			log.warn("Second signal, exiting without draining", { signal });
+			process.exit(1);
+		}
+		stopping = true;
+		log.info("Shutting down, draining requests", { signal, grace_period_ms: SHUTDOWN_GRACE_PERIOD });
+		const deadline = Date.now() + SHUTDOWN_GRACE_PERIOD;
+		startDraining();
+
+		// stop() closes the listener at once and resolves after in-flight requests
+		const requestsDone = await Promise.race([
+			server.stop().then(() => true),
+			Bun.sleep(SHUTDOWN_GRACE_PERIOD).then(() => false),
+		]);
+		// Background work (refreshes, prewarming) can still hold solves
+		const tasksDone = await drainWorkers(Math.max(0, deadline - Date.now()));
+		if (!requestsDone || !tasksDone) {
+			log.warn("Grace period over, dropping remaining work", {
+				pending_requests: server.pendingRequests,
+				...poolHealth(),
+			});
+		}
 
-	const shutdown = (): void => {
 		shutdownWorkers();
 		server.stop(true);
+		try {
+			await closeCaches();
+		} catch (error) {
+			log.error("Cache flush failed", { error });
+		}
+		log.info("Shutdown complete");
 		process.exit(0);
 	};
 
-	process.on("SIGINT", shutdown);
-	process.on("SIGTERM", shutdown);
+	process.on("SIGINT", () => shutdown("SIGINT"));
+	process.on("SIGTERM", () => shutdown("SIGTERM"));
+	process.on("SIGHUP", reload);
+};
+
+const reload = (): void => {
+	try {
+		const { applied, ignored } = reloadConfig();
+		if (applied.length > 0) log.info("Configuration reloaded", { applied: applied.join(", ") });
+		else log.info("Configuration reloaded, nothing changed");
+		if (ignored.length > 0) log.warn("Some changes need a restart to apply", { ignored: ignored.join(", ") });
+	} catch (error) {
+		log.error("Configuration reload failed, keeping the current one", { error });
+	}
 };
 
 start().catch((e) => {
-	console.error("Server startup failed:", e);
+	log.error("Server startup failed", { error: e });
 	process.exit(1);
 });
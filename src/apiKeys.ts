@@ -0,0 +1,121 @@
+import { config } from './config.ts'
+import { createLogger } from './logger.ts'
+import type { ApiKey, ErrorCode } from './types.ts'
+
+const log = createLogger('auth')
+
+const API_TOKEN = config.auth.api_token
+const API_KEYS_FILE = config.auth.api_keys_file
+
+// Registry keyed by the secret sent in the Authorization header
+const registry = new Map<string, ApiKey>()
+
+export type AuthResult =
+  | { ok: true; key?: ApiKey }
+  | { ok: false; code: ErrorCode; error: string }
+
+const _isPositiveInt = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isInteger(v) && v > 0
+
+const _parseKey = (raw: unknown, index: number): ApiKey => {
+  const fail = (msg: string): never => {
+    throw new Error(`${API_KEYS_FILE}: key #${index}: ${msg}`)
+  }
+  if (!raw || typeof raw !== 'object') return fail('must be an object')
+
+  const entry = raw as Record<string, unknown>
+  const { name, key, expires_at, rate_limit, daily_quota, routes } = entry
+
+  if (typeof name !== 'string' || !name) fail('name is required')
+  if (typeof key !== 'string' || !key) fail('key is required')
+  if (
+    expires_at !== undefined &&
+    (typeof expires_at !== 'string' || Number.isNaN(Date.parse(expires_at)))
+  ) {
+    fail('expires_at must be an ISO 8601 date')
+  }
+  if (rate_limit !== undefined) {
+    const rl = rate_limit as Record<string, unknown> | null
+    if (!rl || !_isPositiveInt(rl.requests) || !_isPositiveInt(rl.window_ms)) {
+      fail('rate_limit needs positive integer requests and window_ms')
+    }
+  }
+  if (daily_quota !== undefined && !_isPositiveInt(daily_quota)) {
+    fail('daily_quota must be a positive integer')
+  }
+  if (
+    routes !== undefined &&
+    (!Array.isArray(routes) ||
+      !routes.every((r) => typeof r === 'string' && r.startsWith('/')))
+  ) {
+    fail('routes must be an array of paths')
+  }
+
+  return entry as unknown as ApiKey
+}
+
+/**
+ * Loads the key registry from API_KEYS_FILE (a JSON array of keys, or an
+ * object with a `keys` array). A legacy API_TOKEN is registered as a key
+ * named "default" without limits of its own. Throws on invalid entries.
+ */
+export const loadApiKeys = async (): Promise<void> => {
+  registry.clear()
+  if (API_TOKEN) registry.set(API_TOKEN, { name: 'default', key: API_TOKEN })
+  if (!API_KEYS_FILE) return
+
+  const data = await Bun.file(API_KEYS_FILE).json()
+  const list: unknown = Array.isArray(data) ? data : data?.keys
+  if (!Array.isArray(list)) {
+    throw new Error(`${API_KEYS_FILE}: expected an array of API keys`)
+  }
+
+  const names = new Set<string>(registry.size ? ['default'] : [])
+  list.forEach((raw, i) => {
+    const key = _parseKey(raw, i)
+    if (names.has(key.name) || registry.has(key.key)) {
+      throw new Error(`${API_KEYS_FILE}: key #${i}: duplicate name or key`)
+    }
+    names.add(key.name)
+    registry.set(key.key, key)
+  })
+  log.info(`Loaded ${list.length} API keys`, { file: API_KEYS_FILE })
+}
+
+/** Whether any API key (or the legacy API_TOKEN) is configured */
+export const hasApiKeys = (): boolean => registry.size > 0
+
+/**
+ * Resolves the Authorization header to an API key and checks its expiry and
+ * route allow-list. Access is open when no keys are configured.
+ */
+export const authenticate = (
+  token: string | null,
+  pathname: string
+): AuthResult => {
+  if (registry.size === 0) return { ok: true }
+
+  const key = token ? registry.get(token) : undefined
+  if (!key) {
+    return {
+      ok: false,
+      code: 'UNAUTHORIZED',
+      error: token ? 'Invalid API token' : 'Missing API token'
+    }
+  }
+  if (key.expires_at && Date.parse(key.expires_at) <= Date.now()) {
+    return {
+      ok: false,
+      code: 'FORBIDDEN',
+      error: `API key "${key.name}" has expired`
+    }
+  }
+  if (key.routes && !key.routes.includes(pathname)) {
+    return {
+      ok: false,
+      code: 'FORBIDDEN',
+      error: `API key "${key.name}" is not allowed to access ${pathname}`
+    }
+  }
+  return { ok: true, key }
+}
@@ -1,52 +1,94 @@
-import { mkdir } from 'node:fs/promises'
-import { basename, join } from 'path'
-import { extractPlayerId, validateUrl } from './utils.ts'
-
-const CACHE_DIR = join(process.cwd(), 'player_cache')
-const PROCESSED_DIR = join(CACHE_DIR, 'processed')
-const META_FILE = join(CACHE_DIR, 'meta.json')
-
-const MEMORY_CACHE_SIZE = 50
-const DISK_CACHE_SIZE = 100
-const SIGNATURE_CACHE_SIZE = 500
+import { config, onConfigReload } from './config.ts'
+import { markStale } from './context.ts'
+import { createLogger } from './logger.ts'
+import { cacheLookups, gauge } from './metrics.ts'
+import { ApiError } from './shared.ts'
+import { FileStore } from './stores/fileStore.ts'
+import { SqliteStore } from './stores/sqliteStore.ts'
+import type { CacheStore, CachedPlayerInfo } from './types.ts'
+import { fetchPlayer, isUpstreamDown } from './upstream.ts'
+import { createSingleFlight, extractPlayerId, validateUrl } from './utils.ts'
+import { evictFromWorkers } from './workerPool.ts'
+
+// `upload` never contacts YouTube: only players sent to POST /players are
+// served, and they are kept until evicted since they cannot be re-fetched
+const FETCH_PLAYERS = config.players.source === 'fetch'
 const HASH_CACHE_SIZE = 200
-const PLAYER_TTL = 172800000 // 2 days
-const CACHE_TTL = 86400000 // 1 day
-const SIG_TTL = 3600000 // 1 hour
 const CLEANUP_INTERVAL = 3600000 // 1 hour
-const META_SAVE_DELAY = 5000
+const MB = 1024 * 1024
+
+const log = createLogger('cache')
+
+// Player sources kept in memory, and player sources plus preprocessed
+// players kept by the store; 0 lifts the limit
+const _memoryBudget = (): number => config.cache.memory_mb * MB
+const _diskBudget = (): number => config.cache.disk_mb * MB
+// Expired players keep being served for players.max_stale while they are
+// refreshed in the background, so a YouTube outage doesn't fail players we
+// already have
+const _playerExpiry = (): number =>
+  config.players.ttl + config.players.max_stale
 
 interface CacheEntry<T> {
   v: T
   t: number
   a: number
+  s: number
 }
 
-interface Metadata {
-  players: Record<string, { url: string; t: number; a: number }>
-  processed: Record<string, { t: number; a: number }>
+interface DiskEntry {
+  kind: 'player' | 'processed'
+  key: string
+  path: string
+  a: number
+  size: number
 }
 
+/**
+ * Bounded by entry count, and by total size when given a budget and a way to
+ * size values. A value bigger than the whole budget is not cached.
+ */
 class LRUCache<T> {
   private c = new Map<string, CacheEntry<T>>()
   private m: number
   private ttl: number
-
-  constructor(maxSize: number, ttl: number) {
+  private name?: string
+  private budget: number
+  private sizeOf?: (v: T) => number
+  private used = 0
+
+  constructor(
+    maxSize: number,
+    ttl: number,
+    name?: string,
+    budget?: { bytes: number; sizeOf: (v: T) => number }
+  ) {
     this.m = maxSize
     this.ttl = ttl
+    this.name = name
+    this.budget = budget?.bytes || Infinity
+    this.sizeOf = budget?.sizeOf
+  }
+
+  get size(): number {
+    return this.c.size
+  }
+
+  get bytes(): number {
+    return this.used
   }
 
   get(k: string): T | undefined {
     const e = this.c.get(k)
-    if (!e) return undefined
+    if (!e) return this.miss()
 
     const now = Date.now()
     if (now - e.t > this.ttl) {
-      this.c.delete(k)
-      return undefined
+      this.delete(k)
+      return this.miss()
     }
 
+    if (this.name) cacheLookups.inc({ cache: this.name, result: 'hit' })
     e.a = now
     this.c.delete(k)
     this.c.set(k, e)
@@ -55,38 +97,121 @@ class LRUCache<T> {
 
   set(k: string, v: T): void {
     const now = Date.now()
-    if (this.c.has(k)) {
-      this.c.delete(k)
-    } else if (this.c.size >= this.m) {
+    const s = this.sizeOf ? this.sizeOf(v) : 0
+    this.delete(k)
+    if (s > this.budget) return
+
+    this.evict(1, s)
+    this.c.set(k, { v, t: now, a: now, s })
+    this.used += s
+  }
+
+  /** Applies new limits, evicting the least recently used entries to fit */
+  resize(maxSize: number, ttl: number, bytes?: number): void {
+    this.m = maxSize
+    this.ttl = ttl
+    if (this.sizeOf) this.budget = bytes || Infinity
+    this.evict(0, 0)
+  }
+
+  /** Evicts from the LRU end until `slots` entries of `bytes` more fit */
+  private evict(slots: number, bytes: number): void {
+    while (
+      this.c.size > 0 &&
+      (this.c.size + slots > this.m || this.used + bytes > this.budget)
+    ) {
       const firstKey = this.c.keys().next().value
-      if (firstKey !== undefined) {
-        this.c.delete(firstKey)
-      }
+      if (firstKey === undefined) break
+      this.delete(firstKey)
     }
-    this.c.set(k, { v, t: now, a: now })
+  }
+
+  private miss(): undefined {
+    if (this.name) cacheLookups.inc({ cache: this.name, result: 'miss' })
+    return undefined
   }
 
   has(k: string): boolean {
     const e = this.c.get(k)
     if (!e) return false
     if (Date.now() - e.t > this.ttl) {
-      this.c.delete(k)
+      this.delete(k)
       return false
     }
     return true
   }
+
+  delete(k: string): void {
+    const e = this.c.get(k)
+    if (!e) return
+    this.c.delete(k)
+    this.used -= e.s
+  }
+
+  deleteByPrefix(prefix: string): void {
+    for (const k of this.c.keys()) {
+      if (k.startsWith(prefix)) this.delete(k)
+    }
+  }
+
+  clear(): void {
+    this.c.clear()
+    this.used = 0
+  }
 }
 
 const hashCache = new LRUCache<string>(HASH_CACHE_SIZE, Infinity)
-const contentCache = new LRUCache<string>(MEMORY_CACHE_SIZE, CACHE_TTL)
-const sigCache = new LRUCache<string>(SIGNATURE_CACHE_SIZE, SIG_TTL)
-const stsCache = new LRUCache<string>(100, CACHE_TTL)
-
-let metadata: Metadata = { players: {}, processed: {} }
-let metaLoaded = false
-let metaDirty = false
-let saveTimer: ReturnType<typeof setTimeout> | undefined
+// Player code is ASCII, so its length is its size in bytes
+const contentCache = new LRUCache<string>(
+  Infinity,
+  config.cache.ttl,
+  'content',
+  { bytes: _memoryBudget(), sizeOf: (v) => v.length }
+)
+const sigCache = new LRUCache<string>(
+  config.cache.signature_size,
+  config.cache.signature_ttl,
+  'sig'
+)
+const stsCache = new LRUCache<string>(
+  config.cache.sts_size,
+  config.cache.ttl,
+  'sts'
+)
+
+onConfigReload(() => {
+  const { ttl, signature_size, signature_ttl, sts_size } = config.cache
+  contentCache.resize(Infinity, ttl, _memoryBudget())
+  sigCache.resize(signature_size, signature_ttl)
+  stsCache.resize(sts_size, ttl)
+})
+
+// Write time of the player copy this process's memory caches and workers
+// hold, by path. A shared store lets another replica replace a player, which
+// shows up here as a different time in the store.
+const versions = new Map<string, number>()
+
+// Concurrent misses for the same player share one download
+const downloads = createSingleFlight<string>()
+// Background refreshes of expired players; requests never wait on these
+const refreshes = createSingleFlight<void>()
+
+const _createStore = (): CacheStore => {
+  switch (config.cache.store) {
+    case 'file':
+      return new FileStore(config.cache.dir, (cacheKey) =>
+        _urlFromKey(cacheKey)
+      )
+    case 'sqlite':
+      return new SqliteStore(config.cache.sqlite_path)
+  }
+}
+
+const store = _createStore()
+
 let cleanupTimer: ReturnType<typeof setInterval>
+// Bytes held by the store as of the last budget check
+let diskUsed = 0
 
 const _internal = {
   hash(s: string): string {
@@ -98,84 +223,52 @@ const _internal = {
     return h
   },
 
-  getFilePath(
-    hash: string,
-    baseDir: string = CACHE_DIR,
-    suffix: string = '.js'
-  ): string {
-    return join(baseDir, `${hash}${suffix}`)
-  },
-
-  async loadMeta(): Promise<void> {
-    if (metaLoaded) return
-    try {
-      metadata = (await Bun.file(META_FILE).json()) as Metadata
-    } catch (err: any) {
-      if (err.code !== 'ENOENT') throw err
-      metadata = { players: {}, processed: {} }
-    }
-    metaLoaded = true
-  },
-
-  async saveMeta(): Promise<void> {
-    if (!metaDirty) return
-    await Bun.write(META_FILE, JSON.stringify(metadata))
-    metaDirty = false
-  },
-
-  scheduleSave(): void {
-    if (saveTimer) return
-    metaDirty = true
-    saveTimer = setTimeout(async () => {
-      await this.saveMeta()
-      saveTimer = undefined
-    }, META_SAVE_DELAY)
-  },
-
-  async unlinkFile(path: string): Promise<void> {
-    try {
-      const exists = await Bun.file(path).exists()
-      if (exists) await Bun.file(path).delete()
-    } catch {}
-  },
-
   async cleanup(): Promise<void> {
-    await this.loadMeta()
     const now = Date.now()
-    const toDelete: string[] = []
-
-    for (const [hash, meta] of Object.entries(metadata.players)) {
-      if (now - meta.t > PLAYER_TTL) {
-        toDelete.push(hash)
-        await this.unlinkFile(this.getFilePath(hash))
+    const ttl = config.cache.ttl
+
+    if (FETCH_PLAYERS) {
+      for (const [cacheKey, meta] of await store.listPlayers()) {
+        if (now - meta.t > _playerExpiry()) {
+          await store.deletePlayer(cacheKey)
+          await _invalidateDerived(store.pathFor(cacheKey))
+        }
       }
     }
 
-    for (const [key, meta] of Object.entries(metadata.processed)) {
-      if (now - meta.t > CACHE_TTL) {
-        const hash = basename(key, '.js')
-        await this.unlinkFile(
-          this.getFilePath(hash, PROCESSED_DIR, '_processed.js')
-        )
-        delete metadata.processed[key]
-      }
+    for (const [path, meta] of await store.listProcessed()) {
+      if (now - meta.t > ttl) await store.deleteProcessed(path)
     }
 
-    for (const hash of toDelete) {
-      delete metadata.players[hash]
-    }
+    await store.purgeSts(now - ttl)
+    await _enforceDiskBudget()
 
-    if (toDelete.length > 0) {
-      metaDirty = true
-      await this.saveMeta()
+    const reconciled = await store.reconcile()
+    if (Object.values(reconciled).some((n) => n > 0)) {
+      log.warn('Cache metadata out of sync with files, repaired', {
+        ...reconciled
+      })
     }
+    await store.flush()
   }
 }
 
+gauge('cache_bytes', 'Approximate bytes held by size-bounded caches', () => [
+  [{ cache: 'content' }, contentCache.bytes],
+  [{ cache: 'disk' }, diskUsed]
+])
+
+gauge('cache_entries', 'Number of entries held by each cache', () => [
+  [{ cache: 'content' }, contentCache.size],
+  [{ cache: 'sig' }, sigCache.size],
+  [{ cache: 'sts' }, stsCache.size],
+  [{ cache: 'players' }, store.stats().players],
+  [{ cache: 'processed' }, store.stats().processed]
+])
+
 cleanupTimer = setInterval(() => _internal.cleanup(), CLEANUP_INTERVAL)
 
-export const getPlayerFilePath = async (url: string): Promise<string> => {
-  const normalizedUrl = validateUrl(url)
+const _cacheKey = (normalizedUrl: string): string => {
   const playerId = extractPlayerId(normalizedUrl)
   // Build cache key from player ID + variant to avoid collisions
   // Different variants of same player (ias, embed, tv, es6) get unique keys
@@ -185,69 +278,254 @@ export const getPlayerFilePath = async (url: string): Promise<string> => {
   const cacheKey = playerId !== 'unknown'
     ? `${playerId}__${variant}`
     : _internal.hash(normalizedUrl)
+  return cacheKey
+}
 
-  const filePath = _internal.getFilePath(cacheKey.replace(/[^a-zA-Z0-9_-]/g, '_'))
-  const now = Date.now()
+/**
+ * Inverse of _cacheKey, for rebuilding lost metadata. validateUrl only lets
+ * `<variant>.vflset/<locale>/base.js` paths through, so that is all it maps.
+ */
+const _urlFromKey = (cacheKey: string): string | undefined => {
+  const match =
+    /^([\w-]+)__player_\1_([\w-]+)_vflset_([a-z]{2}_[A-Z]{2})_base_js$/.exec(
+      cacheKey
+    )
+  if (!match) return undefined
+  const [, playerId, variant, locale] = match
+  const url = `https://www.youtube.com/s/player/${playerId}/${variant}.vflset/${locale}/base.js`
+  return _cacheKey(url) === cacheKey ? url : undefined
+}
+
+/** Drops this process's copies of a player and the solvers compiled from it */
+const _dropFromMemory = (path: string): void => {
+  contentCache.delete(path)
+  stsCache.delete(path)
+  sigCache.deleteByPrefix(`${path}:`)
+  evictFromWorkers(path)
+  versions.delete(path)
+}
 
-  await _internal.loadMeta()
+/**
+ * Drops everything derived from a player whose source changed, including
+ * the solvers workers compiled from it under the same key
+ */
+const _invalidateDerived = async (path: string): Promise<void> => {
+  await store.deleteProcessed(path)
+  await store.deleteSts(path)
+  _dropFromMemory(path)
+}
 
-  if (metadata.players[cacheKey]) {
-    metadata.players[cacheKey].a = now
-    if (metadata.players[cacheKey].url !== normalizedUrl) {
-      console.log(`[Cache] Player URL changed for ${cacheKey}, invalidating`)
-      await _internal.unlinkFile(filePath)
-      delete metadata.players[cacheKey]
+const _diskEntries = async (): Promise<DiskEntry[]> => {
+  const entries: DiskEntry[] = []
+  for (const [key, meta] of await store.listPlayers()) {
+    entries.push({
+      kind: 'player',
+      key,
+      path: store.pathFor(key),
+      a: meta.a,
+      size: await store.playerSize(key)
+    })
+  }
+  for (const [path, meta] of await store.listProcessed()) {
+    entries.push({
+      kind: 'processed',
+      key: path,
+      path,
+      a: meta.a,
+      size: await store.processedSize(path)
+    })
+  }
+  return entries
+}
+
+/**
+ * Evicts the least recently used players and preprocessed players until the
+ * store fits cache.disk_mb with `reserve` bytes to spare. Entries belonging to
+ * `keep` (a player path) stay, and so do players that cannot be re-fetched.
+ */
+const _enforceDiskBudget = async (
+  reserve = 0,
+  keep?: string
+): Promise<void> => {
+  const budget = _diskBudget()
+  if (budget <= 0) return
+  const entries = await _diskEntries()
+  let used = entries.reduce((sum, e) => sum + e.size, 0)
+  diskUsed = used
+  if (used + reserve <= budget) return
+
+  const before = used
+  let evicted = 0
+  const processedBytes = new Map(
+    entries.flatMap((e) => (e.kind === 'processed' ? [[e.path, e.size]] : []))
+  )
+  const victims = entries
+    .filter((e) => e.path !== keep && (e.kind === 'processed' || FETCH_PLAYERS))
+    .sort((x, y) => x.a - y.a)
+  for (const e of victims) {
+    if (used + reserve <= budget) break
+    if (e.kind === 'player') {
+      await store.deletePlayer(e.key)
+      // Takes the preprocessed copy and compiled solvers with it, so a
+      // later download under the same key starts clean
+      await _invalidateDerived(e.path)
+      used -= e.size + (processedBytes.get(e.path) ?? 0)
+    } else if (processedBytes.has(e.path)) {
+      await store.deleteProcessed(e.path)
+      used -= e.size
+    } else {
+      continue
+    }
+    processedBytes.delete(e.path)
+    evicted++
+  }
+  diskUsed = used
+  await store.flush()
+  log.info('Cache over disk budget, evicted least recently used', {
+    evicted,
+    before_bytes: before,
+    after_bytes: used,
+    budget_bytes: budget
+  })
+}
+
+/**
+ * Re-downloads an expired player without holding up the request that found
+ * it. On failure the expired copy is kept and served until players.max_stale.
+ */
+const _refresh = (cacheKey: string, url: string): void => {
+  if (refreshes.get(cacheKey) || isUpstreamDown()) return
+
+  refreshes
+    .run(cacheKey, async () => {
+      const path = store.pathFor(cacheKey)
+      const content = await fetchPlayer(url)
+      const previous = await store.readPlayer(path).catch(() => undefined)
+      const now = Date.now()
+      await store.putPlayer(cacheKey, { url, t: now, a: now }, content)
+      const changed = content !== previous
+      if (changed) await _invalidateDerived(path)
+      versions.set(path, now)
+      await store.flush()
+      log.info('Stale player refreshed', { cache_key: cacheKey, changed })
+    })
+    .catch((error) =>
+      log.warn('Stale player refresh failed, keeping cached copy', {
+        cache_key: cacheKey,
+        error
+      })
+    )
+}
+
+export const getPlayerFilePath = async (url: string): Promise<string> => {
+  const normalizedUrl = validateUrl(url)
+  const cacheKey = _cacheKey(normalizedUrl)
+  const filePath = store.pathFor(cacheKey)
+  const now = Date.now()
+
+  const pending = downloads.get(cacheKey)
+  if (pending) return pending
+
+  let meta = await store.getPlayer(cacheKey)
+  if (meta) {
+    await store.touchPlayer(cacheKey, now)
+    if (meta.url !== normalizedUrl) {
+      log.info('Player URL changed, invalidating', {
+        cache_key: cacheKey,
+        url: normalizedUrl
+      })
+      await store.deletePlayer(cacheKey)
+      meta = undefined
+    } else if (versions.get(filePath) !== meta.t) {
+      if (versions.has(filePath)) {
+        log.info('Player replaced by another process, dropping copies', {
+          cache_key: cacheKey
+        })
+        _dropFromMemory(filePath)
+      }
+      versions.set(filePath, meta.t)
     }
   }
 
-  if (metadata.players[cacheKey]) {
-    if (now - metadata.players[cacheKey].t <= PLAYER_TTL) {
-      const exists = await Bun.file(filePath).exists()
+  if (meta) {
+    const age = now - meta.t
+    if (!FETCH_PLAYERS || age <= _playerExpiry()) {
+      const exists = await store.hasPlayerContent(cacheKey)
+      if (exists && FETCH_PLAYERS && age > config.players.ttl) {
+        cacheLookups.inc({ cache: 'players', result: 'stale' })
+        markStale()
+        _refresh(cacheKey, normalizedUrl)
+        return filePath
+      }
       if (exists) {
-        _internal.scheduleSave()
+        cacheLookups.inc({ cache: 'players', result: 'hit' })
         return filePath
       }
-      console.log(`[Cache] File missing for ${cacheKey}, re-downloading`)
-      delete metadata.players[cacheKey]
+      log.info('Player file missing', { cache_key: cacheKey })
+      if (FETCH_PLAYERS) await store.deletePlayer(cacheKey)
     } else {
-      console.log(`[Cache] TTL expired for ${cacheKey}, re-downloading`)
-      await _internal.unlinkFile(filePath)
-      delete metadata.players[cacheKey]
+      // The old copy stays in place until the new one is downloaded
+      log.info('Player past max staleness, re-downloading', {
+        cache_key: cacheKey
+      })
     }
-  } else {
-    console.log(`[Cache] Cache miss for ${cacheKey}, downloading ${normalizedUrl}`)
+  } else if (FETCH_PLAYERS) {
+    log.info('Player cache miss, downloading', {
+      cache_key: cacheKey,
+      url: normalizedUrl
+    })
   }
 
-  const res = await fetch(normalizedUrl)
-  if (!res.ok) throw new Error(`Failed to fetch player: ${res.statusText}`)
-
-  const content = await res.text()
+  cacheLookups.inc({ cache: 'players', result: 'miss' })
+  if (!FETCH_PLAYERS) {
+    throw new ApiError(
+      'PLAYER_NOT_CACHED',
+      `Player not cached and fetching is disabled; upload it via POST /players: ${normalizedUrl}`
+    )
+  }
+  return downloads.run(cacheKey, async () => {
+    const content = await fetchPlayer(normalizedUrl)
+    await store.putPlayer(
+      cacheKey,
+      { url: normalizedUrl, t: now, a: now },
+      content
+    )
+    // Replaces an expired, missing or differently addressed copy; whatever
+    // was derived from that one must not outlive it
+    await _invalidateDerived(filePath)
+    versions.set(filePath, now)
+
+    return filePath
+  })
+}
 
-  await Bun.write(filePath, content)
+/**
+ * Path of a player that is already cached, without downloading, refreshing
+ * or touching it. Undefined when it is not cached.
+ */
+export const findCachedPlayer = async (
+  url: string
+): Promise<string | undefined> => {
+  const cacheKey = _cacheKey(validateUrl(url))
+  if (!(await store.hasPlayerContent(cacheKey))) return undefined
+  return store.pathFor(cacheKey)
+}
 
-  metadata.players[cacheKey] = { url: normalizedUrl, t: now, a: now }
-  _internal.scheduleSave()
+/** Throws unless the cache store can be written to */
+export const checkCacheWritable = (): Promise<void> => store.checkWritable()
 
-  return filePath
-}
+/** URLs of the most recently used cached players, newest first */
+export const listRecentPlayers = async (limit: number): Promise<string[]> =>
+  (await store.listPlayers())
+    .sort(([, a], [, b]) => b.a - a.a)
+    .slice(0, limit)
+    .map(([, meta]) => meta.url)
 
 export const getPlayerContent = async (path: string): Promise<string> => {
   const cached = contentCache.get(path)
   if (cached) return cached
 
-  let content: string
-  try {
-    const mapped = Bun.mmap(path)
-    content =
-      typeof mapped === 'string' ? mapped : new TextDecoder().decode(mapped)
-  } catch (error) {
-    const isUnsupportedMmap =
-      error instanceof Error &&
-      /mmapFile is not supported on Windows/i.test(error.message)
-    if (!isUnsupportedMmap) throw error
-    content = await (Bun.file(path) as any).text({ cache: true })
-  }
-
+  const content = await store.readPlayer(path)
   contentCache.set(path, content)
   return content
 }
@@ -255,23 +533,21 @@ export const getPlayerContent = async (path: string): Promise<string> => {
 export const getPreprocessed = async (
   path: string
 ): Promise<string | undefined> => {
-  await _internal.loadMeta()
-  const meta = metadata.processed[path]
-  if (!meta) return undefined
-
+  const meta = await store.getProcessed(path)
   const now = Date.now()
-  if (now - meta.t > CACHE_TTL) return undefined
+  if (!meta || now - meta.t > config.cache.ttl) {
+    cacheLookups.inc({ cache: 'processed', result: 'miss' })
+    return undefined
+  }
 
-  const hash = basename(path, '.js')
-  const file = _internal.getFilePath(hash, PROCESSED_DIR, '_processed.js')
   try {
-    const content = await Bun.file(file).text()
-    meta.a = now
-    _internal.scheduleSave()
+    const content = await store.readProcessed(path)
+    await store.touchProcessed(path, now)
+    cacheLookups.inc({ cache: 'processed', result: 'hit' })
     return content
   } catch {
-    delete metadata.processed[path]
-    _internal.scheduleSave()
+    cacheLookups.inc({ cache: 'processed', result: 'miss' })
+    await store.deleteProcessed(path)
     return undefined
   }
 }
@@ -280,53 +556,141 @@ export const setPreprocessed = async (
   path: string,
   content: string
 ): Promise<void> => {
-  await _internal.loadMeta()
-
-  const keys = Object.keys(metadata.processed)
-  if (keys.length >= DISK_CACHE_SIZE && !(path in metadata.processed)) {
-    let lruKey: string | null = null
-    let lruTime = Infinity
-    for (const [k, m] of Object.entries(metadata.processed)) {
-      if (m.a < lruTime) {
-        lruTime = m.a
-        lruKey = k
-      }
-    }
-    if (lruKey) {
-      const hash = basename(lruKey, '.js')
-      await _internal.unlinkFile(
-        _internal.getFilePath(hash, PROCESSED_DIR, '_processed.js')
-      )
-      delete metadata.processed[lruKey]
-    }
-  }
-
-  const hash = basename(path, '.js')
-  const file = _internal.getFilePath(hash, PROCESSED_DIR, '_processed.js')
-
-  await Bun.write(file, content)
-
+  await _enforceDiskBudget(content.length, path)
   const now = Date.now()
-  metadata.processed[path] = { t: now, a: now }
-  _internal.scheduleSave()
+  await store.putProcessed(path, { t: now, a: now }, content)
 }
 
 export const getSignature = (key: string): string | undefined =>
   sigCache.get(key)
 export const setSignature = (key: string, value: string): void =>
   sigCache.set(key, value)
-export const getSts = (path: string): string | undefined => stsCache.get(path)
-export const setSts = (path: string, sts: string): void =>
+
+export const getSts = async (path: string): Promise<string | undefined> => {
+  const cached = stsCache.get(path)
+  if (cached) return cached
+
+  const stored = await store.getSts(path)
+  if (!stored || Date.now() - stored.t > config.cache.ttl) return undefined
+  stsCache.set(path, stored.sts)
+  return stored.sts
+}
+
+export const setSts = async (path: string, sts: string): Promise<void> => {
   stsCache.set(path, sts)
+  await store.putSts(path, sts, Date.now())
+}
+
+/** Lists every cached player together with its preprocessed copy, if any */
+export const listCachedPlayers = async (): Promise<CachedPlayerInfo[]> => {
+  const now = Date.now()
+  const processed = new Map(await store.listProcessed())
+  const players: CachedPlayerInfo[] = []
+
+  for (const [cacheKey, meta] of await store.listPlayers()) {
+    const path = store.pathFor(cacheKey)
+    const proc = processed.get(path)
+    processed.delete(path)
+    players.push({
+      key: cacheKey,
+      url: meta.url,
+      created_at: new Date(meta.t).toISOString(),
+      last_access: new Date(meta.a).toISOString(),
+      age_ms: now - meta.t,
+      size: await store.playerSize(cacheKey),
+      processed: proc
+        ? {
+            created_at: new Date(proc.t).toISOString(),
+            last_access: new Date(proc.a).toISOString(),
+            age_ms: now - proc.t,
+            size: await store.processedSize(path)
+          }
+        : null
+    })
+  }
+
+  return players
+}
+
+/**
+ * Stores a player script supplied by a client under the key
+ * getPlayerFilePath computes for its URL, replacing any cached copy along
+ * with everything derived from it. Returns the player path.
+ */
+export const storePlayer = async (
+  url: string,
+  content: string
+): Promise<string> => {
+  const normalizedUrl = validateUrl(url)
+  const cacheKey = _cacheKey(normalizedUrl)
+  const path = store.pathFor(cacheKey)
+  const now = Date.now()
+
+  await store.putPlayer(
+    cacheKey,
+    { url: normalizedUrl, t: now, a: now },
+    content
+  )
+  await _invalidateDerived(path)
+  versions.set(path, now)
+  await store.flush()
+  return path
+}
+
+/** Clears the in-memory content, signature and STS caches */
+export const clearMemoryCaches = (): void => {
+  contentCache.clear()
+  sigCache.clear()
+  stsCache.clear()
+}
+
+/**
+ * Removes one player from disk and memory. Returns the player path (the
+ * worker solver cache key) or undefined when the player is not cached.
+ */
+export const evictPlayer = async (
+  cacheKey: string
+): Promise<string | undefined> => {
+  const meta = await store.getPlayer(cacheKey)
+  const path = store.pathFor(cacheKey)
+  const processed = await store.getProcessed(path)
+  if (!meta && !processed) return undefined
+
+  await store.deletePlayer(cacheKey)
+  await _invalidateDerived(path)
+  await store.flush()
+  return path
+}
+
+/** Removes every player, preprocessed copy and in-memory entry */
+export const evictAll = async (): Promise<number> => {
+  const players = await store.listPlayers()
+  for (const [cacheKey] of players) await store.deletePlayer(cacheKey)
+  for (const [path] of await store.listProcessed()) {
+    await store.deleteProcessed(path)
+  }
+  await store.purgeSts(Infinity)
+  clearMemoryCaches()
+  versions.clear()
+  await store.flush()
+  return players.length
+}
+
+/** Runs the periodic TTL cleanup immediately */
+export const runCleanup = (): Promise<void> => _internal.cleanup()
+
+/** Stops the cleanup timer and writes out anything the store buffers */
+export const closeCaches = async (): Promise<void> => {
+  clearInterval(cleanupTimer)
+  await store.flush()
+}
 
 export const initCaches = async (): Promise<void> => {
-  await mkdir(CACHE_DIR, { recursive: true })
-  await mkdir(PROCESSED_DIR, { recursive: true })
-  await _internal.loadMeta()
+  await store.init()
+  log.info(`Using ${store.name} cache store`)
   await _internal.cleanup()
 }
 
 process.on('exit', () => {
   if (cleanupTimer) clearInterval(cleanupTimer)
-  if (saveTimer) clearTimeout(saveTimer)
 })
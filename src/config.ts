@@ -0,0 +1,732 @@
+import { env } from 'bun'
+import { readFileSync } from 'node:fs'
+import { cpus } from 'node:os'
+import { extname, join, resolve } from 'node:path'
+import { isMainThread, workerData } from 'node:worker_threads'
+import { parseCidr } from './utils.ts'
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+export type LogLevel = (typeof LOG_LEVELS)[number]
+
+/**
+ * Every setting, grouped as in the config file. Keys are the file's keys;
+ * each also has an environment variable, which wins over the file.
+ */
+export interface Config {
+  server: {
+    host: string
+    port: number
+    prewarm_recent: number
+    shutdown_grace_period: number
+    public_docs: boolean
+  }
+  auth: {
+    api_token: string
+    api_keys_file: string
+    admin_token: string
+    metrics_token: string
+    upload_token: string
+  }
+  log: {
+    level: LogLevel
+    format: 'text' | 'json'
+  }
+  cache: {
+    dir: string
+    store: 'file' | 'sqlite'
+    sqlite_path: string
+    memory_mb: number
+    disk_mb: number
+    ttl: number
+    signature_ttl: number
+    signature_size: number
+    sts_size: number
+  }
+  players: {
+    source: 'fetch' | 'upload'
+    ttl: number
+    max_stale: number
+    broken_threshold: number
+  }
+  workers: {
+    max_threads: number
+    min: number
+    timeout: number
+    idle_timeout: number
+    max_tasks: number
+    max_heap_mb: number
+    solver_cache_size: number
+    affinity_wait: number
+    max_queue: number
+  }
+  upstream: {
+    base_url: string
+    connect_timeout: number
+    read_timeout: number
+    retries: number
+    retry_delay: number
+    user_agent: string
+    headers: Record<string, string>
+    proxy: string
+    breaker_threshold: number
+    breaker_cooldown: number
+  }
+  rate_limit: {
+    capacity: number
+    refill: number
+    costs: Record<string, number>
+    trusted_proxies: string[]
+  }
+  probes: {
+    max_loop_lag: number
+    max_queue: number
+    canary_player: string
+    canary_interval: number
+    canary_timeout: number
+  }
+}
+
+interface Entry {
+  value: unknown
+  source: 'env' | 'file' | 'default'
+  reload: boolean
+  secret: boolean
+}
+
+interface ReadOptions {
+  /** Applied by SIGHUP; everything else needs a restart */
+  reload?: boolean
+  /** Masked when the configuration is printed */
+  secret?: boolean
+}
+
+type Parse<T> = (value: unknown) => T
+
+const CONFIG_FILE = env.CONFIG_FILE || ''
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+
+const _describe = (v: unknown): string => JSON.stringify(v) ?? `${v}`
+
+const _isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v)
+
+const _int =
+  (min = 0, max = Number.MAX_SAFE_INTEGER): Parse<number> =>
+  (v) => {
+    const n =
+      typeof v === 'number'
+        ? v
+        : typeof v === 'string' && /^\s*-?\d+\s*$/.test(v)
+          ? Number(v)
+          : Number.NaN
+    if (!Number.isInteger(n)) {
+      throw new Error(`expected an integer, got ${_describe(v)}`)
+    }
+    if (n < min || n > max) {
+      throw new Error(
+        max === Number.MAX_SAFE_INTEGER
+          ? `must be at least ${min}, got ${n}`
+          : `must be between ${min} and ${max}, got ${n}`
+      )
+    }
+    return n
+  }
+
+// Timers fire after 1ms when given a longer delay than this
+const MAX_DELAY = 2147483647
+
+/** Milliseconds that end up as a timer delay */
+const _delay = (min = 1): Parse<number> => _int(min, MAX_DELAY)
+
+const _positive: Parse<number> = (v) => {
+  const n =
+    typeof v === 'number'
+      ? v
+      : typeof v === 'string' && v.trim()
+        ? Number(v)
+        : Number.NaN
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new Error(`expected a positive number, got ${_describe(v)}`)
+  }
+  return n
+}
+
+const _string: Parse<string> = (v) => {
+  if (typeof v !== 'string') {
+    throw new Error(`expected a string, got ${_describe(v)}`)
+  }
+  return v
+}
+
+const _oneOf =
+  <T extends string>(values: readonly T[]): Parse<T> =>
+  (v) => {
+    const s = typeof v === 'string' ? v.toLowerCase() : v
+    if (!values.includes(s as T)) {
+      throw new Error(
+        `expected one of ${values.join(', ')}, got ${_describe(v)}`
+      )
+    }
+    return s as T
+  }
+
+/** `true`/`false` in the file; `true`, `false`, `1` or `0` in the environment */
+const _bool: Parse<boolean> = (v) => {
+  if (typeof v === 'boolean') return v
+  const s = typeof v === 'string' ? v.trim().toLowerCase() : v
+  if (s === 'true' || s === '1') return true
+  if (s === 'false' || s === '0') return false
+  throw new Error(`expected true or false, got ${_describe(v)}`)
+}
+
+const _url: Parse<string> = (v) => {
+  const s = _string(v)
+  try {
+    new URL(s)
+  } catch {
+    throw new Error(`expected a URL, got ${_describe(v)}`)
+  }
+  return s
+}
+
+/** A JSON object of strings in the environment, a table in the file */
+const _headers: Parse<Record<string, string>> = (v) => {
+  let parsed = v
+  if (typeof v === 'string') {
+    try {
+      parsed = JSON.parse(v)
+    } catch {
+      throw new Error('expected a JSON object')
+    }
+  }
+  if (
+    !_isObject(parsed) ||
+    !Object.values(parsed).every((h) => typeof h === 'string')
+  ) {
+    throw new Error('expected an object of header names and string values')
+  }
+  return parsed as Record<string, string>
+}
+
+/** `route=cost` pairs in the environment, a table in the file */
+const _costs: Parse<Record<string, number>> = (v) => {
+  let pairs: Array<[string, unknown]>
+  if (typeof v === 'string') {
+    pairs = v
+      .split(',')
+      .filter((p) => p.trim())
+      .map((p) => {
+        const [route, cost] = p.split('=')
+        return [route.trim(), cost?.trim()]
+      })
+  } else if (_isObject(v)) {
+    pairs = Object.entries(v)
+  } else {
+    throw new Error('expected route=cost pairs')
+  }
+  const costs: Record<string, number> = {}
+  for (const [route, cost] of pairs) {
+    const value = typeof cost === 'number' ? cost : parseFloat(`${cost}`)
+    if (!route.startsWith('/') || !Number.isFinite(value) || value < 0) {
+      throw new Error(`invalid entry ${route}=${cost}`)
+    }
+    costs[route] = value
+  }
+  return costs
+}
+
+/** Comma-separated CIDRs in the environment, an array in the file */
+const _cidrs: Parse<string[]> = (v) => {
+  const list =
+    typeof v === 'string'
+      ? v
+          .split(',')
+          .map((c) => c.trim())
+          .filter(Boolean)
+      : v
+  if (!Array.isArray(list) || !list.every((c) => typeof c === 'string')) {
+    throw new Error('expected a list of CIDRs')
+  }
+  for (const cidr of list) {
+    try {
+      parseCidr(cidr)
+    } catch {
+      throw new Error(`invalid CIDR ${cidr}`)
+    }
+  }
+  return list
+}
+
+const _readFile = (file: string): Record<string, unknown> => {
+  if (!file) return {}
+  const text = readFileSync(file, 'utf8')
+  let data: unknown
+  try {
+    const ext = extname(file).toLowerCase()
+    if (ext === '.toml') data = Bun.TOML.parse(text)
+    else if (ext === '.json') data = JSON.parse(text)
+    else throw new Error('expected a .json or .toml file')
+  } catch (err) {
+    throw new Error(`Invalid config file ${file}: ${(err as Error).message}`)
+  }
+  if (!_isObject(data)) {
+    throw new Error(`Invalid config file ${file}: expected an object`)
+  }
+  return data
+}
+
+/** Looks settings up in the environment, then the file, then the defaults */
+class SettingsReader {
+  readonly errors: string[] = []
+  readonly entries = new Map<string, Entry>()
+
+  constructor(private file: Record<string, unknown>) {}
+
+  read<T>(
+    path: string,
+    name: string,
+    fallback: T,
+    parse: Parse<T>,
+    { reload = false, secret = false }: ReadOptions = {}
+  ): T {
+    const [group, key] = path.split('.')
+    const section = this.file[group]
+    const fromFile = _isObject(section) ? section[key] : undefined
+    const fromEnv = env[name]
+
+    let value = fallback
+    let source: Entry['source'] = 'default'
+    if (fromEnv !== undefined && fromEnv !== '') source = 'env'
+    else if (fromFile !== undefined) source = 'file'
+    if (source !== 'default') {
+      try {
+        value = parse(source === 'env' ? fromEnv : fromFile)
+      } catch (err) {
+        const where = source === 'env' ? name : `${path} in ${CONFIG_FILE}`
+        this.errors.push(`${where}: ${(err as Error).message}`)
+      }
+    }
+    this.entries.set(path, { value, source, reload, secret })
+    return value
+  }
+
+  /** File keys that no setting read, most likely typos */
+  unknownKeys(): string[] {
+    const unknown: string[] = []
+    for (const [group, section] of Object.entries(this.file)) {
+      if (!_isObject(section)) {
+        unknown.push(group)
+        continue
+      }
+      for (const key of Object.keys(section)) {
+        if (!this.entries.has(`${group}.${key}`))
+          unknown.push(`${group}.${key}`)
+      }
+    }
+    return unknown
+  }
+}
+
+const _load = (): { config: Config; entries: Map<string, Entry> } => {
+  const r = new SettingsReader(_readFile(CONFIG_FILE))
+  const reload = { reload: true }
+  const secret = { secret: true }
+
+  const threads = r.read(
+    'workers.max_threads',
+    'MAX_THREADS',
+    Math.min(cpus().length || 1, 8),
+    _int(1)
+  )
+  const dir = resolve(
+    r.read(
+      'cache.dir',
+      'CACHE_DIR',
+      join(process.cwd(), 'player_cache'),
+      _string
+    )
+  )
+  const capacity = r.read(
+    'rate_limit.capacity',
+    'RATE_LIMIT_CAPACITY',
+    100,
+    _positive,
+    reload
+  )
+
+  const config: Config = {
+    server: {
+      host: r.read('server.host', 'HOST', '0.0.0.0', _string),
+      port: r.read('server.port', 'PORT', 8001, _int(1, 65535)),
+      prewarm_recent: r.read(
+        'server.prewarm_recent',
+        'PREWARM_RECENT',
+        0,
+        _int()
+      ),
+      shutdown_grace_period: r.read(
+        'server.shutdown_grace_period',
+        'SHUTDOWN_GRACE_PERIOD',
+        25000,
+        _delay(0)
+      ),
+      public_docs: r.read('server.public_docs', 'PUBLIC_DOCS', false, _bool)
+    },
+    auth: {
+      api_token: r.read('auth.api_token', 'API_TOKEN', '', _string, secret),
+      api_keys_file: r.read('auth.api_keys_file', 'API_KEYS_FILE', '', _string),
+      admin_token: r.read(
+        'auth.admin_token',
+        'ADMIN_TOKEN',
+        '',
+        _string,
+        secret
+      ),
+      metrics_token: r.read(
+        'auth.metrics_token',
+        'METRICS_TOKEN',
+        '',
+        _string,
+        secret
+      ),
+      upload_token: r.read(
+        'auth.upload_token',
+        'UPLOAD_TOKEN',
+        '',
+        _string,
+        secret
+      )
+    },
+    log: {
+      level: r.read(
+        'log.level',
+        'LOG_LEVEL',
+        'info',
+        _oneOf(LOG_LEVELS),
+        reload
+      ),
+      format: r.read(
+        'log.format',
+        'LOG_FORMAT',
+        'text',
+        _oneOf(['text', 'json'] as const),
+        reload
+      )
+    },
+    cache: {
+      dir,
+      store: r.read(
+        'cache.store',
+        'CACHE_STORE',
+        'file',
+        _oneOf(['file', 'sqlite'] as const)
+      ),
+      sqlite_path: r.read(
+        'cache.sqlite_path',
+        'CACHE_SQLITE_PATH',
+        join(dir, 'cache.sqlite'),
+        _string
+      ),
+      memory_mb: r.read(
+        'cache.memory_mb',
+        'CACHE_MEMORY_MB',
+        128,
+        _int(),
+        reload
+      ),
+      disk_mb: r.read('cache.disk_mb', 'CACHE_DISK_MB', 1024, _int(), reload),
+      ttl: r.read('cache.ttl', 'CACHE_TTL', 86400000, _int(1), reload),
+      signature_ttl: r.read(
+        'cache.signature_ttl',
+        'SIGNATURE_TTL',
+        3600000,
+        _int(1),
+        reload
+      ),
+      signature_size: r.read(
+        'cache.signature_size',
+        'SIGNATURE_CACHE_SIZE',
+        500,
+        _int(1),
+        reload
+      ),
+      sts_size: r.read('cache.sts_size', 'STS_CACHE_SIZE', 100, _int(1), reload)
+    },
+    players: {
+      source: r.read(
+        'players.source',
+        'PLAYER_SOURCE',
+        'fetch',
+        _oneOf(['fetch', 'upload'] as const)
+      ),
+      ttl: r.read('players.ttl', 'PLAYER_TTL', 172800000, _int(1), reload),
+      max_stale: r.read(
+        'players.max_stale',
+        'PLAYER_MAX_STALE',
+        604800000,
+        _int(),
+        reload
+      ),
+      broken_threshold: r.read(
+        'players.broken_threshold',
+        'PLAYER_BROKEN_THRESHOLD',
+        5,
+        _int(1),
+        reload
+      )
+    },
+    workers: {
+      max_threads: threads,
+      min: Math.min(r.read('workers.min', 'MIN_WORKERS', 0, _int()), threads),
+      timeout: r.read(
+        'workers.timeout',
+        'WORKER_TIMEOUT',
+        60000,
+        _delay(),
+        reload
+      ),
+      idle_timeout: r.read(
+        'workers.idle_timeout',
+        'WORKER_IDLE_TIMEOUT',
+        // Off by default: reaping discards compiled solvers
+        0,
+        _delay(0)
+      ),
+      max_tasks: r.read(
+        'workers.max_tasks',
+        'WORKER_MAX_TASKS',
+        10000,
+        _int(),
+        reload
+      ),
+      max_heap_mb: r.read(
+        'workers.max_heap_mb',
+        'WORKER_MAX_HEAP_MB',
+        512,
+        _int(),
+        reload
+      ),
+      solver_cache_size: r.read(
+        'workers.solver_cache_size',
+        'WORKER_SOLVER_CACHE_SIZE',
+        100,
+        _int(1)
+      ),
+      affinity_wait: r.read(
+        'workers.affinity_wait',
+        'WORKER_AFFINITY_WAIT',
+        50,
+        _delay(0),
+        reload
+      ),
+      max_queue: r.read(
+        'workers.max_queue',
+        'WORKER_MAX_QUEUE',
+        1000,
+        _int(1),
+        reload
+      )
+    },
+    upstream: {
+      base_url: r.read('upstream.base_url', 'UPSTREAM_BASE_URL', '', _url),
+      connect_timeout: r.read(
+        'upstream.connect_timeout',
+        'UPSTREAM_CONNECT_TIMEOUT',
+        5000,
+        _delay(),
+        reload
+      ),
+      read_timeout: r.read(
+        'upstream.read_timeout',
+        'UPSTREAM_READ_TIMEOUT',
+        30000,
+        _delay(),
+        reload
+      ),
+      retries: r.read(
+        'upstream.retries',
+        'UPSTREAM_RETRIES',
+        2,
+        _int(),
+        reload
+      ),
+      retry_delay: r.read(
+        'upstream.retry_delay',
+        'UPSTREAM_RETRY_DELAY',
+        500,
+        _delay(0),
+        reload
+      ),
+      user_agent: r.read(
+        'upstream.user_agent',
+        'UPSTREAM_USER_AGENT',
+        DEFAULT_USER_AGENT,
+        _string
+      ),
+      headers: r.read(
+        'upstream.headers',
+        'UPSTREAM_HEADERS',
+        {},
+        _headers,
+        secret
+      ),
+      proxy: r.read('upstream.proxy', 'UPSTREAM_PROXY', '', _url, secret),
+      breaker_threshold: r.read(
+        'upstream.breaker_threshold',
+        'UPSTREAM_BREAKER_THRESHOLD',
+        5,
+        _int(),
+        reload
+      ),
+      breaker_cooldown: r.read(
+        'upstream.breaker_cooldown',
+        'UPSTREAM_BREAKER_COOLDOWN',
+        30000,
+        _int(),
+        reload
+      )
+    },
+    rate_limit: {
+      capacity,
+      // The default refills a full bucket in a minute
+      refill: r.read(
+        'rate_limit.refill',
+        'RATE_LIMIT_REFILL',
+        capacity / 60,
+        _positive,
+        reload
+      ),
+      costs: r.read('rate_limit.costs', 'RATE_LIMIT_COSTS', {}, _costs, reload),
+      trusted_proxies: r.read(
+        'rate_limit.trusted_proxies',
+        'TRUSTED_PROXIES',
+        [],
+        _cidrs
+      )
+    },
+    probes: {
+      max_loop_lag: r.read(
+        'probes.max_loop_lag',
+        'LIVEZ_MAX_LOOP_LAG',
+        2000,
+        _int(1),
+        reload
+      ),
+      max_queue: r.read(
+        'probes.max_queue',
+        'READYZ_MAX_QUEUE',
+        100,
+        _int(1),
+        reload
+      ),
+      canary_player: r.read(
+        'probes.canary_player',
+        'CANARY_PLAYER',
+        '',
+        _string,
+        reload
+      ),
+      canary_interval: r.read(
+        'probes.canary_interval',
+        'CANARY_INTERVAL',
+        10000,
+        _int(),
+        reload
+      ),
+      canary_timeout: r.read(
+        'probes.canary_timeout',
+        'CANARY_TIMEOUT',
+        10000,
+        _delay(),
+        reload
+      )
+    }
+  }
+
+  for (const key of r.unknownKeys()) {
+    r.errors.push(`${key} in ${CONFIG_FILE}: unknown setting`)
+  }
+  if (r.errors.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n${r.errors.map((e) => `  ${e}`).join('\n')}`
+    )
+  }
+  return { config, entries: r.entries }
+}
+
+// Nothing can start without a valid configuration, and the logger depends on
+// it, so problems go straight to stderr. Workers never load their own: they
+// get the main thread's when spawned, and its reloads through applyConfig.
+const loaded = (() => {
+  if (!isMainThread) {
+    const { config } = workerData as { config: Config }
+    return { config, entries: new Map<string, Entry>() }
+  }
+  try {
+    return _load()
+  } catch (err) {
+    console.error((err as Error).message)
+    process.exit(1)
+  }
+})()
+const listeners: Array<() => void> = []
+
+/**
+ * The effective configuration. Reloads update it in place, so code that
+ * should follow a reload reads it when needed instead of copying values.
+ */
+export const config: Config = loaded.config
+const entries = loaded.entries
+
+/** Every setting with its value and where it came from; secrets masked */
+export const describeConfig = (): Record<string, string> => {
+  const out: Record<string, string> = {}
+  if (CONFIG_FILE) out.config_file = CONFIG_FILE
+  const sorted = [...entries].sort(([a], [b]) => a.localeCompare(b))
+  for (const [path, e] of sorted) {
+    const value = e.secret && e.source !== 'default' ? '***' : e.value
+    out[path] =
+      `${typeof value === 'string' && value ? value : _describe(value)} (${e.source})`
+  }
+  return out
+}
+
+/** Runs `fn` after each reload that applied a change */
+export const onConfigReload = (fn: () => void): void => {
+  listeners.push(fn)
+}
+
+/** Takes over the main thread's configuration after a reload, in workers */
+export const applyConfig = (next: Config): void => {
+  for (const group of Object.keys(next) as Array<keyof Config>) {
+    Object.assign(config[group], next[group])
+  }
+  for (const fn of listeners) fn()
+}
+
+/**
+ * Loads the configuration again and applies the settings that are safe to
+ * change at runtime. Throws, leaving everything as it was, when the new
+ * configuration is invalid. Returns which changes were applied and which
+ * need a restart.
+ */
+export const reloadConfig = (): { applied: string[]; ignored: string[] } => {
+  const next = _load()
+  const applied: string[] = []
+  const ignored: string[] = []
+  for (const [path, e] of next.entries) {
+    const current = entries.get(path)
+    if (_describe(current?.value) === _describe(e.value)) continue
+    if (!e.reload) {
+      ignored.push(path)
+      continue
+    }
+    const [group, key] = path.split('.') as [keyof Config, string]
+    ;(config[group] as Record<string, unknown>)[key] = e.value
+    entries.set(path, e)
+    applied.push(path)
+  }
+  if (applied.length > 0) for (const fn of listeners) fn()
+  return { applied, ignored }
+}
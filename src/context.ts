@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/** Per-request state, visible to everything awaited inside the request */
+export interface RequestScope {
+  requestId: string
+  /** Set once the request used a player past its TTL */
+  stale?: boolean
+  /** Aborts when the client disconnects */
+  signal?: AbortSignal
+  /** Epoch ms after which the client has stopped waiting */
+  deadline?: number
+}
+
+const storage = new AsyncLocalStorage<RequestScope>()
+
+export const runInScope = <T>(scope: RequestScope, fn: () => T): T =>
+  storage.run(scope, fn)
+
+export const currentScope = (): RequestScope | undefined => storage.getStore()
+
+export const currentRequestId = (): string | undefined =>
+  storage.getStore()?.requestId
+
+/** Flags the current request as answered from an expired player */
+export const markStale = (): void => {
+  const scope = storage.getStore()
+  if (scope) scope.stale = true
+}
+
+/** Moves the current request's deadline earlier; never extends it */
+export const limitDeadline = (deadline: number): void => {
+  const scope = storage.getStore()
+  if (scope && !(scope.deadline !== undefined && scope.deadline <= deadline)) {
+    scope.deadline = deadline
+  }
+}
+
+/** The current request's signal and deadline, in execInPool's shape */
+export const currentLimits = (): Pick<RequestScope, 'signal' | 'deadline'> => {
+  const scope = storage.getStore()
+  return { signal: scope?.signal, deadline: scope?.deadline }
+}
@@ -0,0 +1,74 @@
+import {
+  clearMemoryCaches,
+  evictAll,
+  evictPlayer,
+  listCachedPlayers,
+  runCleanup
+} from '../cacheManager.ts'
+import { errorResponse, jsonResponse } from '../shared.ts'
+import { evictFromWorkers } from '../workerPool.ts'
+
+const PREFIX = '/admin/cache'
+const PLAYER_PREFIX = `${PREFIX}/players/`
+
+const _list = async (): Promise<Response> => {
+  const players = await listCachedPlayers()
+  return jsonResponse({ count: players.length, players })
+}
+
+const _evictOne = async (cacheKey: string): Promise<Response> => {
+  const path = await evictPlayer(cacheKey)
+  if (!path) {
+    return errorResponse(`Player not cached: ${cacheKey}`, 'NOT_FOUND')
+  }
+  return jsonResponse({ evicted: cacheKey })
+}
+
+const _evictAll = async (): Promise<Response> => {
+  const evicted = await evictAll()
+  evictFromWorkers()
+  return jsonResponse({ evicted })
+}
+
+const _clearMemory = (): Response => {
+  clearMemoryCaches()
+  evictFromWorkers()
+  return jsonResponse({ cleared: true })
+}
+
+const _cleanup = async (): Promise<Response> => {
+  await runCleanup()
+  return jsonResponse({ cleaned: true })
+}
+
+/**
+ * Cache management routes:
+ *   GET    /admin/cache                list cached players
+ *   DELETE /admin/cache                evict everything
+ *   DELETE /admin/cache/players/:key   evict one player
+ *   DELETE /admin/cache/memory         clear in-memory and worker caches
+ *   POST   /admin/cache/cleanup        run the TTL cleanup now
+ */
+export const handleAdminCache = async (req: Request): Promise<Response> => {
+  const { pathname } = new URL(req.url)
+  const method = req.method
+
+  if (pathname === PREFIX) {
+    if (method === 'GET') return _list()
+    if (method === 'DELETE') return _evictAll()
+  } else if (pathname === `${PREFIX}/memory`) {
+    if (method === 'DELETE') return _clearMemory()
+  } else if (pathname === `${PREFIX}/cleanup`) {
+    if (method === 'POST') return _cleanup()
+  } else if (pathname.startsWith(PLAYER_PREFIX)) {
+    const cacheKey = decodeURIComponent(pathname.slice(PLAYER_PREFIX.length))
+    if (!cacheKey) {
+      return errorResponse('Player key is required', 'INVALID_REQUEST')
+    }
+    if (method === 'DELETE') return _evictOne(cacheKey)
+  } else {
+    return errorResponse('Not Found', 'NOT_FOUND')
+  }
+
+  return errorResponse('Method Not Allowed', 'METHOD_NOT_ALLOWED')
+}
@@ -0,0 +1,188 @@
+import type { Output } from '../../ejs/src/yt/solver/main.ts'
+import {
+  getPlayerFilePath,
+  getSignature,
+  setSignature
+} from '../cacheManager.ts'
+import { invalidOutput, recordSolve } from '../playerHealth.ts'
+import {
+  type ApiError,
+  errorResponse,
+  jsonResponse,
+  toApiError
+} from '../shared.ts'
+import {
+  type SolverRequest,
+  signatureKey,
+  solve,
+  solverError
+} from '../solver.ts'
+import type {
+  BatchDecryptItem,
+  BatchDecryptRequest,
+  BatchDecryptResponse,
+  BatchDecryptResult
+} from '../types.ts'
+import { validateUrl } from '../utils.ts'
+
+const MAX_BATCH_ITEMS = 500
+
+/** Solves every item of one player in a single worker task */
+const _solveGroup = async (
+  playerUrl: string,
+  items: BatchDecryptItem[],
+  indexes: number[],
+  results: BatchDecryptResult[]
+): Promise<void> => {
+  const fail = (ids: number[], err: ApiError): void => {
+    recordSolve(playerUrl, err)
+    for (const i of ids) results[i] = err.toJSON()
+  }
+
+  let path: string
+  try {
+    path = await getPlayerFilePath(playerUrl)
+  } catch (err) {
+    fail(indexes, toApiError(err))
+    return
+  }
+
+  const pending: number[] = []
+  const sigs = new Set<string>()
+  const ns = new Set<string>()
+  for (const i of indexes) {
+    const { encrypted_signature = '', n_param = '' } = items[i]
+    const cached = getSignature(
+      signatureKey(path, encrypted_signature, n_param)
+    )
+    if (cached) {
+      const [sig, n] = cached.split('|')
+      results[i] = { decrypted_signature: sig || '', decrypted_n_sig: n || '' }
+      continue
+    }
+    pending.push(i)
+    if (encrypted_signature) sigs.add(encrypted_signature)
+    if (n_param) ns.add(n_param)
+  }
+  if (pending.length === 0) return
+
+  const requests: SolverRequest[] = []
+  if (sigs.size > 0) requests.push({ type: 'sig', challenges: [...sigs] })
+  if (ns.size > 0) requests.push({ type: 'n', challenges: [...ns] })
+
+  let output: Output
+  try {
+    output = await solve(path, requests)
+  } catch (err) {
+    fail(pending, toApiError(err))
+    return
+  }
+  if (output.type === 'error') {
+    fail(pending, solverError(output.error))
+    return
+  }
+
+  // Responses come back in the same order as the requests that produced them
+  const solved: Record<SolverRequest['type'], Record<string, string>> = {
+    sig: {},
+    n: {}
+  }
+  const errors: Partial<Record<SolverRequest['type'], string>> = {}
+  output.responses.forEach((r, idx) => {
+    const type = requests[idx]?.type
+    if (!type) return
+    if (r.type === 'result') solved[type] = r.data
+    else errors[type] = r.error
+  })
+
+  // One outcome per group: any failed item counts against the player
+  let failure: ApiError | undefined
+  for (const i of pending) {
+    const { encrypted_signature = '', n_param = '' } = items[i]
+    if (encrypted_signature && !(encrypted_signature in solved.sig)) {
+      failure = solverError(errors.sig || 'Failed to solve signature', 'sig')
+      results[i] = failure.toJSON()
+      continue
+    }
+    if (n_param && !(n_param in solved.n)) {
+      failure = solverError(errors.n || 'Failed to solve n parameter', 'n')
+      results[i] = failure.toJSON()
+      continue
+    }
+
+    const sig = encrypted_signature ? solved.sig[encrypted_signature] : ''
+    const n = n_param ? solved.n[n_param] : ''
+    const invalid =
+      (encrypted_signature && invalidOutput('sig', encrypted_signature, sig)) ||
+      (n_param && invalidOutput('n', n_param, n))
+    if (invalid) {
+      failure = invalid
+      results[i] = invalid.toJSON()
+      continue
+    }
+    setSignature(
+      signatureKey(path, encrypted_signature, n_param),
+      `${sig}|${n}`
+    )
+    results[i] = { decrypted_signature: sig, decrypted_n_sig: n }
+  }
+  recordSolve(playerUrl, failure)
+}
+
+export const handleBatchDecrypt = async (req: Request): Promise<Response> => {
+  let body: BatchDecryptRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
+  }
+
+  const items = body?.items
+  if (!Array.isArray(items) || items.length === 0) {
+    return errorResponse('items must be a non-empty array', 'INVALID_REQUEST')
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    return errorResponse(
+      `items must not exceed ${MAX_BATCH_ITEMS}`,
+      'INVALID_REQUEST'
+    )
+  }
+
+  const results: BatchDecryptResult[] = new Array(items.length)
+  const groups = new Map<string, number[]>()
+
+  items.forEach((item, i) => {
+    if (!item?.player_url) {
+      results[i] = { error: 'player_url is required', code: 'INVALID_REQUEST' }
+      return
+    }
+    if (!item.encrypted_signature && !item.n_param) {
+      results[i] = {
+        error: 'encrypted_signature or n_param is required',
+        code: 'INVALID_REQUEST'
+      }
+      return
+    }
+
+    let playerUrl: string
+    try {
+      playerUrl = validateUrl(item.player_url)
+    } catch (err) {
+      results[i] = toApiError(err, 'INVALID_PLAYER_URL').toJSON()
+      return
+    }
+
+    const group = groups.get(playerUrl)
+    if (group) group.push(i)
+    else groups.set(playerUrl, [i])
+  })
+
+  await Promise.all(
+    Array.from(groups, ([playerUrl, indexes]) =>
+      _solveGroup(playerUrl, items, indexes, results)
+    )
+  )
+
+  const res: BatchDecryptResponse = { results }
+  return jsonResponse(res)
+}
@@ -1,17 +1,23 @@
+import type { Output } from '../../ejs/src/yt/solver/main.ts'
 import {
-  getPlayerContent,
   getPlayerFilePath,
-  getPreprocessed,
   getSignature,
-  setPreprocessed,
   setSignature
 } from '../cacheManager.ts'
-import { errorResponse, jsonResponse } from '../shared.ts'
+import { invalidOutput, recordSolve } from '../playerHealth.ts'
+import {
+  apiErrorResponse,
+  errorResponse,
+  jsonResponse,
+  toApiError
+} from '../shared.ts'
+import {
+  type SolverRequest,
+  signatureKey,
+  solve,
+  solverError
+} from '../solver.ts'
 import type { SignatureRequest, SignatureResponse } from '../types.ts'
-import { execInPool } from '../workerPool.ts'
-
-const _key = (path: string, sig: string, n: string): string =>
-  `${path}:${sig}:${n}`
 
 export const handleDecryptSignature = async (
   req: Request
@@ -20,24 +26,23 @@ export const handleDecryptSignature = async (
   try {
     body = await req.json()
   } catch {
-    return errorResponse('Invalid JSON body', 400)
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
   }
 
   const { encrypted_signature, n_param, player_url } = body
 
-  if (!player_url) return errorResponse('player_url is required', 400)
+  if (!player_url) {
+    return errorResponse('player_url is required', 'INVALID_REQUEST')
+  }
 
   let path: string
   try {
     path = await getPlayerFilePath(player_url)
   } catch (err) {
-    return errorResponse(
-      err instanceof Error ? err.message : 'Failed to resolve player file path',
-      500
-    )
+    return apiErrorResponse(err)
   }
 
-  const key = _key(path, encrypted_signature || '', n_param || '')
+  const key = signatureKey(path, encrypted_signature || '', n_param || '')
   const cached = getSignature(key)
   if (cached) {
     const [sig, n] = cached.split('|')
@@ -48,56 +53,38 @@ export const handleDecryptSignature = async (
     return jsonResponse(res)
   }
 
-  const preprocessed = await getPreprocessed(path)
-  let player: string | undefined
-  if (!preprocessed) {
-    try {
-      player = await getPlayerContent(path)
-    } catch {
-      return errorResponse('Failed to read player file', 500)
-    }
-  }
+  const requests: SolverRequest[] = [
+    {
+      type: 'sig',
+      challenges: encrypted_signature ? [encrypted_signature] : []
+    },
+    { type: 'n', challenges: n_param ? [n_param] : [] }
+  ]
 
-  const input = preprocessed
-    ? {
-        type: 'preprocessed' as const,
-        preprocessed_player: preprocessed,
-        requests: [
-          {
-            type: 'sig' as const,
-            challenges: encrypted_signature ? [encrypted_signature] : []
-          },
-          { type: 'n' as const, challenges: n_param ? [n_param] : [] }
-        ],
-        cacheKey: path
-      }
-    : {
-        type: 'player' as const,
-        // biome-ignore lint/style/noNonNullAssertion: player is fetched on cache miss
-        player: player!,
-        output_preprocessed: true,
-        requests: [
-          {
-            type: 'sig' as const,
-            challenges: encrypted_signature ? [encrypted_signature] : []
-          },
-          { type: 'n' as const, challenges: n_param ? [n_param] : [] }
-        ],
-        cacheKey: path
-      }
-
-  // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
-  const output = await execInPool(input as any)
+  const fail = (err: unknown): Response => {
+    const apiError = toApiError(err)
+    recordSolve(player_url, apiError)
+    return apiErrorResponse(apiError)
+  }
 
-  if (output.type === 'error') return errorResponse(output.error, 500)
+  let output: Output
+  try {
+    output = await solve(path, requests)
+  } catch (err) {
+    return fail(err)
+  }
 
-  if (output.preprocessed_player && !preprocessed) {
-    await setPreprocessed(path, output.preprocessed_player)
+  if (output.type === 'error') {
+    return fail(solverError(output.error))
   }
 
   let sig = ''
   let n = ''
-  for (const r of output.responses || []) {
+  for (const [i, r] of (output.responses || []).entries()) {
+    // An error only matters for a request that actually had challenges
+    if (r.type === 'error' && requests[i]?.challenges.length) {
+      return fail(solverError(r.error, requests[i].type))
+    }
     if (r.type === 'result') {
       if (encrypted_signature && encrypted_signature in r.data) {
         sig = r.data[encrypted_signature]
@@ -108,6 +95,13 @@ export const handleDecryptSignature = async (
     }
   }
 
+  // Garbage is reported as an error rather than handed out as a stream URL
+  const invalid =
+    (encrypted_signature && invalidOutput('sig', encrypted_signature, sig)) ||
+    (n_param && invalidOutput('n', n_param, n))
+  if (invalid) return fail(invalid)
+  recordSolve(player_url)
+
   const value = `${sig}|${n}`
   setSignature(key, value)
 
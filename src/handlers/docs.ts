@@ -1,4 +1,130 @@
+import { OPENAPI_SPEC, type Operation } from '../openapi.ts'
+import { brokenPlayers } from '../playerHealth.ts'
+import type { Schema } from '../schema.ts'
 import { jsonResponse } from '../shared.ts'
+import type { HealthResponse } from '../types.ts'
+
+const _esc = (v: string): string =>
+  v
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const _resolve = (schema: Schema): Schema =>
+  '$ref' in schema
+    ? OPENAPI_SPEC.components.schemas[schema.$ref.split('/').pop() || '']
+    : schema
+
+const _typeName = (schema: Schema): string => {
+  const s = _resolve(schema)
+  if ('oneOf' in s) return s.oneOf.map(_typeName).join(' | ')
+  if ('$ref' in s) return 'object'
+  if (s.type === 'array') return `${_typeName(s.items)}[]`
+  if (s.type === 'string' && s.enum) return s.enum.join(' | ')
+  return s.type
+}
+
+/** Builds an example value from the schema, preferring declared examples */
+const _example = (schema: Schema, requiredOnly = false): unknown => {
+  const s = _resolve(schema)
+  if ('$ref' in s) return {}
+  if ('example' in s && s.example !== undefined) return s.example
+  if ('oneOf' in s) return _example(s.oneOf[0])
+  switch (s.type) {
+    case 'string':
+      return s.enum ? s.enum[0] : 'string'
+    case 'number':
+    case 'integer':
+      return 0
+    case 'boolean':
+      return false
+    case 'array':
+      return [_example(s.items, requiredOnly)]
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(s.properties)
+          .filter(
+            ([key, prop]) =>
+              !requiredOnly ||
+              s.required?.includes(key) ||
+              ('example' in prop && prop.example !== undefined)
+          )
+          .map(([key, prop]) => [key, _example(prop, requiredOnly)])
+      )
+  }
+}
+
+/** Table rows for an object's fields, descending into arrays of objects */
+const _fieldRows = (schema: Schema, prefix = ''): string => {
+  const s = _resolve(schema)
+  if (!('type' in s) || s.type !== 'object') return ''
+  return Object.entries(s.properties)
+    .map(([key, prop]) => {
+      const name = `${prefix}${key}`
+      const required = s.required?.includes(key)
+      const description = 'description' in prop ? prop.description || '' : ''
+      const row = `<tr><td><code>${_esc(name)}</code></td><td>${_esc(_typeName(prop))}</td><td${required ? '>required' : ' class="opt">optional'}</td><td>${_esc(description)}</td></tr>`
+      const inner = _resolve(prop)
+      return 'type' in inner && inner.type === 'array'
+        ? row + _fieldRows(inner.items, `${name}[].`)
+        : row
+    })
+    .join('\n')
+}
+
+const _renderEndpoint = (
+  path: string,
+  method: string,
+  op: Operation
+): string => {
+  const request = op.requestBody?.content['application/json']?.schema
+  const [contentType, media] = Object.entries(
+    op.responses['200']?.content || {}
+  )[0] || ['application/json', undefined]
+  const response = media?.schema
+  const errors = Object.entries(op.responses)
+    .filter(([status]) => status !== '200')
+    .map(
+      ([status, r]) => `<li><code>${status}</code> ${_esc(r.description)}</li>`
+    )
+    .join('')
+
+  const fields = request
+    ? `<table><tr><th>Field</th><th>Type</th><th></th><th>Description</th></tr>\n${_fieldRows(request)}</table>`
+    : ''
+  const responseExample =
+    response && contentType === 'application/json'
+      ? JSON.stringify(_example(response), null, 2)
+      : _esc(op.description)
+  const requestInput = request
+    ? `<textarea name="body" rows="6" spellcheck="false">${_esc(JSON.stringify(_example(request, true), null, 2))}</textarea>`
+    : ''
+
+  return `<section class="endpoint">
+<div class="row"><span class="method">${method.toUpperCase()}</span><span class="path">${_esc(path)}</span></div>
+<p class="desc">${_esc(op.description)}</p>
+${fields}
+<div class="code-block"><span class="code-label">Response</span><pre><code>${_esc(responseExample)}</code></pre></div>
+${errors ? `<ul class="errors">${errors}</ul>` : ''}
+<details><summary>Try it</summary>
+<form class="try" data-method="${method.toUpperCase()}" data-path="${_esc(path)}">
+${requestInput}
+<button type="submit">Send</button>
+<output></output>
+</form>
+</details>
+</section>`
+}
+
+const _renderEndpoints = (): string =>
+  Object.entries(OPENAPI_SPEC.paths)
+    .flatMap(([path, ops]) =>
+      Object.entries(ops).map(([method, op]) =>
+        _renderEndpoint(path, method, op)
+      )
+    )
+    .join('\n')
 
 const DOCS_HTML = `<!doctype html>
 <html lang="en">
@@ -27,6 +153,19 @@ h1 { margin: 0; font-size: 2rem; font-weight: 600; letter-spacing: -0.025em; }
 pre { margin: 0; padding: 1rem; border-radius: 8px; background: var(--code-bg); border: 1px solid var(--border); overflow-x: auto; font-size: 0.85rem; height: 100%; }
 code { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace; }
 .footer { margin-top: 3rem; padding-top: 1.5rem; border-top: 1px solid var(--border); color: var(--muted); font-size: 0.85rem; text-align: center; }
+.footer a { color: inherit; }
+.token { display: flex; flex-direction: column; gap: 0.5rem; font-size: 0.85rem; color: var(--muted); margin-bottom: 2rem; }
+input, textarea { width: 100%; padding: 0.6rem 0.75rem; border-radius: 8px; border: 1px solid var(--border); background: var(--code-bg); color: var(--text); font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace; font-size: 0.85rem; }
+table { width: 100%; border-collapse: collapse; font-size: 0.85rem; margin-bottom: 1rem; }
+th, td { text-align: left; padding: 0.4rem 0.5rem; border-bottom: 1px solid var(--border); vertical-align: top; }
+th { color: var(--muted); font-weight: 600; font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; }
+.opt { color: var(--muted); }
+.errors { color: var(--muted); font-size: 0.85rem; margin: 1rem 0; padding-left: 1.25rem; }
+details { margin-top: 1rem; }
+summary { cursor: pointer; font-size: 0.85rem; font-weight: 600; }
+form.try { display: flex; flex-direction: column; gap: 0.75rem; margin-top: 0.75rem; }
+button { align-self: flex-start; padding: 0.5rem 1rem; border-radius: 6px; border: 1px solid var(--border); background: var(--method-bg); color: var(--method-text); font-weight: 600; cursor: pointer; }
+output { white-space: pre-wrap; font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace; font-size: 0.8rem; }
 .footer code { background: var(--surface); padding: 0.2rem 0.4rem; border-radius: 4px; border: 1px solid var(--border); }
 </style>
 </head>
@@ -35,38 +174,46 @@ code { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monos
 <header>
 <span class="badge">yt-cipher-bun</span>
 <h1>API is online ✅</h1>
-<p class="sub">Use the endpoints below with <code>POST</code> and a JSON body.</p>
+<p class="sub">Use the endpoints below with <code>POST</code> and a JSON body. Errors always look like <code>{ "error": "...", "code": "..." }</code>.</p>
 </header>
-<section class="endpoint">
-<div class="row"><span class="method">POST</span><span class="path">/decrypt_signature</span></div>
-<p class="desc">Decrypts signature and optional <code>n</code> parameter.</p>
-<div class="code-grid">
-<div class="code-block"><span class="code-label">Request</span><pre><code>{ "encrypted_signature": "string", "n_param": "string", "player_url": "string" }</code></pre></div>
-<div class="code-block"><span class="code-label">Response</span><pre><code>{ "decrypted_signature": "string", "decrypted_n_sig": "string" }</code></pre></div>
-</div>
-</section>
-<section class="endpoint">
-<div class="row"><span class="method">POST</span><span class="path">/get_sts</span></div>
-<p class="desc">Extracts STS (signature timestamp) from the player script.</p>
-<div class="code-grid">
-<div class="code-block"><span class="code-label">Request</span><pre><code>{ "player_url": "string" }</code></pre></div>
-<div class="code-block"><span class="code-label">Response</span><pre><code>{ "sts": "string" }</code></pre></div>
-</div>
-</section>
-<section class="endpoint">
-<div class="row"><span class="method">POST</span><span class="path">/resolve_url</span></div>
-<p class="desc">Resolves final stream URL by decrypting signature and/or <code>n</code>.</p>
-<div class="code-grid">
-<div class="code-block"><span class="code-label">Request</span><pre><code>{ "stream_url": "string", "player_url": "string", "encrypted_signature": "string", "signature_key": "string", "n_param": "string" }</code></pre></div>
-<div class="code-block"><span class="code-label">Response</span><pre><code>{ "resolved_url": "string" }</code></pre></div>
-</div>
-</section>
-<footer class="footer">Tip: if API token is enabled, send <code>Authorization: &lt;token&gt;</code> header on API calls.</footer>
+<label class="token">API token <input id="token" type="password" autocomplete="off" placeholder="Sent as the Authorization header, if the server requires one" /></label>
+${_renderEndpoints()}
+<footer class="footer">Machine-readable spec: <a href="/openapi.json"><code>/openapi.json</code></a></footer>
 </main>
+<script>
+const token = document.getElementById('token');
+token.value = sessionStorage.getItem('yt-cipher-token') || '';
+token.addEventListener('input', () => sessionStorage.setItem('yt-cipher-token', token.value));
+for (const form of document.querySelectorAll('form.try')) {
+  form.addEventListener('submit', async (e) => {
+    e.preventDefault();
+    const out = form.querySelector('output');
+    const body = form.querySelector('textarea');
+    const headers = {};
+    if (token.value) headers.Authorization = token.value;
+    const init = { method: form.dataset.method, headers };
+    if (body) {
+      headers['Content-Type'] = 'application/json';
+      init.body = body.value;
+    }
+    out.textContent = 'Sending...';
+    try {
+      const res = await fetch(form.dataset.path, init);
+      const text = await res.text();
+      let pretty = text;
+      try { pretty = JSON.stringify(JSON.parse(text), null, 2); } catch {}
+      out.textContent = res.status + ' ' + res.statusText + '\n\n' + pretty;
+    } catch (err) {
+      out.textContent = String(err);
+    }
+  });
+}
+</script>
 </body>
 </html>`
 
-// Pre-construct the static docs response — avoids allocating a new Response per request
+// Pre-construct the static docs response once; requests get a cheap clone since
+// the rate limiter adds per-request headers
 const DOCS_RESPONSE = new Response(DOCS_HTML, {
   status: 200,
   headers: {
@@ -75,7 +222,22 @@ const DOCS_RESPONSE = new Response(DOCS_HTML, {
   }
 })
 
-export const handleDocs = (_req: Request): Response => DOCS_RESPONSE
+export const handleDocs = (_req: Request): Response => DOCS_RESPONSE.clone()
 
-export const handleHealth = (_req: Request): Response =>
-  jsonResponse({ status: 'ok', service: 'yt-cipher-bun' })
+const OPENAPI_JSON = JSON.stringify(OPENAPI_SPEC)
+
+export const handleOpenApi = (_req: Request): Response =>
+  new Response(OPENAPI_JSON, {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' }
+  })
+
+// Broken players don't make the service unhealthy: other players still work
+export const handleHealth = (_req: Request): Response => {
+  const broken = brokenPlayers()
+  const res: HealthResponse = {
+    status: broken.length > 0 ? 'degraded' : 'ok',
+    service: 'yt-cipher-bun',
+    broken_players: broken
+  }
+  return jsonResponse(res)
+}
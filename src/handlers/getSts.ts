@@ -4,7 +4,7 @@ import {
   getSts,
   setSts
 } from '../cacheManager.ts'
-import { errorResponse, jsonResponse } from '../shared.ts'
+import { apiErrorResponse, errorResponse, jsonResponse } from '../shared.ts'
 import type { StsRequest, StsResponse } from '../types.ts'
 
 const STS_REGEX = /(?:signatureTimestamp|sts):(\d+)/
@@ -14,23 +14,22 @@ export const handleGetSts = async (req: Request): Promise<Response> => {
   try {
     body = await req.json()
   } catch {
-    return errorResponse('Invalid JSON body', 400)
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
   }
 
   const { player_url } = body
-  if (!player_url) return errorResponse('player_url is required', 400)
+  if (!player_url) {
+    return errorResponse('player_url is required', 'INVALID_REQUEST')
+  }
 
   let path: string
   try {
     path = await getPlayerFilePath(player_url)
   } catch (err) {
-    return errorResponse(
-      err instanceof Error ? err.message : 'Failed to resolve player file path',
-      500
-    )
+    return apiErrorResponse(err)
   }
 
-  const cached = getSts(path)
+  const cached = await getSts(path)
   if (cached) {
     const res: StsResponse = { sts: cached }
     return jsonResponse(res)
@@ -40,15 +39,18 @@ export const handleGetSts = async (req: Request): Promise<Response> => {
   try {
     content = await getPlayerContent(path)
   } catch {
-    return errorResponse('Failed to read player file', 500)
+    return errorResponse('Failed to read player file', 'PLAYER_READ_FAILED')
   }
 
   const match = content.match(STS_REGEX)
   if (!match?.[1])
-    return errorResponse('Timestamp not found in player script', 404)
+    return errorResponse(
+      'Timestamp not found in player script',
+      'STS_NOT_FOUND'
+    )
 
   const sts = match[1]
-  setSts(path, sts)
+  await setSts(path, sts)
 
   const res: StsResponse = { sts }
   return jsonResponse(res)
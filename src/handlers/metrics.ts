@@ -0,0 +1,10 @@
+import { renderMetrics } from '../metrics.ts'
+
+export const handleMetrics = (_req: Request): Response =>
+  new Response(renderMetrics(), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      'Cache-Control': 'no-store'
+    }
+  })
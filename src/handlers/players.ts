@@ -0,0 +1,60 @@
+import { setPreprocessed, storePlayer } from '../cacheManager.ts'
+import { createLogger } from '../logger.ts'
+import { apiErrorResponse, errorResponse, jsonResponse } from '../shared.ts'
+import { verifyPlayer } from '../solver.ts'
+import type { PlayerUploadRequest, PlayerUploadResponse } from '../types.ts'
+import { resolvePlayerRef } from '../utils.ts'
+
+// Real players are around 3 MB
+const MAX_SCRIPT_SIZE = 10 * 1024 * 1024
+
+const log = createLogger('players')
+
+/**
+ * Stores an uploaded player script in the cache after checking that the
+ * solver can use it, for deployments that cannot reach YouTube.
+ */
+export const handleUploadPlayer = async (req: Request): Promise<Response> => {
+  let body: PlayerUploadRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
+  }
+
+  const { player, script } = body
+  if (!player) return errorResponse('player is required', 'INVALID_REQUEST')
+  if (!script) return errorResponse('script is required', 'INVALID_REQUEST')
+  if (script.length > MAX_SCRIPT_SIZE) {
+    return errorResponse(
+      `script must not exceed ${MAX_SCRIPT_SIZE} bytes`,
+      'INVALID_REQUEST'
+    )
+  }
+
+  let playerUrl: string
+  try {
+    playerUrl = resolvePlayerRef(player)
+  } catch (err) {
+    return apiErrorResponse(err, 'INVALID_PLAYER_URL')
+  }
+
+  // Verify before storing so a bad upload never replaces a working player
+  let preprocessed: string
+  try {
+    preprocessed = await verifyPlayer(script)
+  } catch (err) {
+    log.warn('Rejected player upload', { player_url: playerUrl, error: err })
+    return apiErrorResponse(err)
+  }
+
+  const path = await storePlayer(playerUrl, script)
+  await setPreprocessed(path, preprocessed)
+  log.info('Player uploaded', { player_url: playerUrl, size: script.length })
+
+  const res: PlayerUploadResponse = {
+    player_url: playerUrl,
+    size: script.length
+  }
+  return jsonResponse(res, 201)
+}
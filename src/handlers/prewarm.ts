@@ -0,0 +1,35 @@
+import { prewarmPlayers } from '../prewarm.ts'
+import { errorResponse, jsonResponse } from '../shared.ts'
+import type { PrewarmRequest, PrewarmResponse } from '../types.ts'
+
+const MAX_PREWARM_PLAYERS = 50
+
+export const handlePrewarm = async (req: Request): Promise<Response> => {
+  let body: PrewarmRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
+  }
+
+  const players = body?.players
+  if (
+    !Array.isArray(players) ||
+    players.length === 0 ||
+    !players.every((p) => typeof p === 'string' && p)
+  ) {
+    return errorResponse(
+      'players must be a non-empty array of strings',
+      'INVALID_REQUEST'
+    )
+  }
+  if (players.length > MAX_PREWARM_PLAYERS) {
+    return errorResponse(
+      `players must not exceed ${MAX_PREWARM_PLAYERS}`,
+      'INVALID_REQUEST'
+    )
+  }
+
+  const res: PrewarmResponse = { results: await prewarmPlayers(players) }
+  return jsonResponse(res)
+}
@@ -0,0 +1,15 @@
+import { checkLiveness, checkReadiness } from '../probes.ts'
+import { jsonResponse } from '../shared.ts'
+import type { ProbeCheck, ProbeResponse } from '../types.ts'
+
+const _respond = (checks: Record<string, ProbeCheck>): Response => {
+  const ok = Object.values(checks).every((c) => c.ok)
+  const res: ProbeResponse = { status: ok ? 'ok' : 'fail', checks }
+  return jsonResponse(res, ok ? 200 : 503)
+}
+
+export const handleLivez = async (_req: Request): Promise<Response> =>
+  _respond(await checkLiveness())
+
+export const handleReadyz = async (_req: Request): Promise<Response> =>
+  _respond(await checkReadiness())
@@ -1,75 +1,27 @@
+import { getPlayerFilePath } from '../cacheManager.ts'
+import type { Output } from '../../ejs/src/yt/solver/main.ts'
+import { invalidOutput, recordSolve } from '../playerHealth.ts'
 import {
-  getPlayerContent,
-  getPlayerFilePath,
-  getPreprocessed,
-  setPreprocessed
-} from '../cacheManager.ts'
-import { errorResponse, jsonResponse } from '../shared.ts'
+  apiErrorResponse,
+  errorResponse,
+  jsonResponse,
+  toApiError
+} from '../shared.ts'
+import { type SolverRequest, solve, solverError } from '../solver.ts'
 import type { ResolveUrlRequest, ResolveUrlResponse } from '../types.ts'
 import { validateUrl } from '../utils.ts'
-import { execInPool } from '../workerPool.ts'
 
+type SolverResponses = Extract<Output, { type: 'result' }>['responses']
+
+/** Solves the challenges, throwing an ApiError describing any failure */
 const _decrypt = async (
   playerUrl: string,
-  requests: Array<{ type: 'sig' | 'n'; challenges: string[] }>
-): Promise<{
-  responses: Array<{ type: string; data: Record<string, string> }>
-  preprocessedPlayer?: string
-} | null> => {
-  let path: string
-  try {
-    path = await getPlayerFilePath(playerUrl)
-  } catch (e) {
-    console.error('getPlayerFilePath failed:', e)
-    return null
-  }
-
-  const preprocessed = await getPreprocessed(path)
-  let player: string | undefined
-  if (!preprocessed) {
-    try {
-      player = await getPlayerContent(path)
-    } catch (e) {
-      console.error('getPlayerContent failed:', e)
-      return null
-    }
-  }
-
-  try {
-    const input = preprocessed
-      ? {
-          type: 'preprocessed' as const,
-          preprocessed_player: preprocessed,
-          requests,
-          cacheKey: path
-        }
-      : {
-          type: 'player' as const,
-          // biome-ignore lint/style/noNonNullAssertion: player is fetched on cache miss
-          player: player!,
-          output_preprocessed: true,
-          requests,
-          cacheKey: path
-        }
-
-    // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
-    const output = await execInPool(input as any)
-
-    if (output.type === 'error') return null
-
-    if (output.preprocessed_player && !preprocessed) {
-      await setPreprocessed(path, output.preprocessed_player)
-    }
-
-    return {
-      // biome-ignore lint/suspicious/noExplicitAny: responses are dynamically cast
-      responses: (output.responses || []) as any[],
-      preprocessedPlayer: output.preprocessed_player
-    }
-  } catch (error) {
-    console.error('Error in decrypt:', error)
-    return null
-  }
+  requests: SolverRequest[]
+): Promise<SolverResponses> => {
+  const path = await getPlayerFilePath(playerUrl)
+  const output = await solve(path, requests)
+  if (output.type === 'error') throw solverError(output.error)
+  return output.responses || []
 }
 
 export const handleResolveUrl = async (req: Request): Promise<Response> => {
@@ -77,7 +29,7 @@ export const handleResolveUrl = async (req: Request): Promise<Response> => {
   try {
     body = await req.json()
   } catch {
-    return errorResponse('Invalid JSON body', 400)
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
   }
 
   const {
@@ -88,29 +40,30 @@ export const handleResolveUrl = async (req: Request): Promise<Response> => {
     n_param: nParamFromRequest
   } = body
 
-  if (!stream_url) return errorResponse('stream_url is required', 400)
-  if (!player_url) return errorResponse('player_url is required', 400)
+  if (!stream_url) {
+    return errorResponse('stream_url is required', 'INVALID_REQUEST')
+  }
+  if (!player_url) {
+    return errorResponse('player_url is required', 'INVALID_REQUEST')
+  }
 
   let normalizedPlayerUrl: string
   try {
     normalizedPlayerUrl = validateUrl(player_url)
   } catch (e) {
-    return errorResponse(
-      e instanceof Error ? e.message : 'Invalid player_url format',
-      400
-    )
+    return apiErrorResponse(e, 'INVALID_PLAYER_URL')
   }
 
   let url: URL
   try {
     url = new URL(stream_url)
   } catch {
-    return errorResponse('Invalid stream_url format', 400)
+    return errorResponse('Invalid stream_url format', 'INVALID_REQUEST')
   }
 
   const nParam = nParamFromRequest || url.searchParams.get('n') || null
 
-  const requests: Array<{ type: 'sig' | 'n'; challenges: string[] }> = []
+  const requests: SolverRequest[] = []
   if (encrypted_signature) {
     requests.push({ type: 'sig', challenges: [encrypted_signature] })
   }
@@ -123,34 +76,55 @@ export const handleResolveUrl = async (req: Request): Promise<Response> => {
     return jsonResponse(response)
   }
 
-  const result = await _decrypt(normalizedPlayerUrl, requests)
-  if (!result) {
-    return errorResponse('Failed to decrypt signature/n parameter', 500)
+  const fail = (err: unknown): Response => {
+    const apiError = toApiError(err)
+    recordSolve(normalizedPlayerUrl, apiError)
+    return apiErrorResponse(apiError)
+  }
+
+  let responses: SolverResponses
+  try {
+    responses = await _decrypt(normalizedPlayerUrl, requests)
+  } catch (err) {
+    return fail(err)
   }
 
   let appliedSignature = false
   let appliedNParam = false
+  const errors: Partial<Record<SolverRequest['type'], string>> = {}
 
-  for (const response of result.responses) {
-    if (response.type !== 'result') continue
+  for (const [i, response] of responses.entries()) {
+    if (response.type !== 'result') {
+      const type = requests[i]?.type
+      if (type) errors[type] = response.error
+      continue
+    }
     if (encrypted_signature && encrypted_signature in response.data) {
-      const sigKey = signature_key || 'sig'
-      url.searchParams.set(sigKey, response.data[encrypted_signature])
+      const sig = response.data[encrypted_signature]
+      const invalid = invalidOutput('sig', encrypted_signature, sig)
+      if (invalid) return fail(invalid)
+      url.searchParams.set(signature_key || 'sig', sig)
       url.searchParams.delete('s')
       appliedSignature = true
     }
     if (nParam && nParam in response.data) {
-      url.searchParams.set('n', response.data[nParam])
+      const n = response.data[nParam]
+      const invalid = invalidOutput('n', nParam, n)
+      if (invalid) return fail(invalid)
+      url.searchParams.set('n', n)
       appliedNParam = true
     }
   }
 
   if (encrypted_signature && !appliedSignature) {
-    return errorResponse('Failed to resolve encrypted signature', 500)
+    return fail(
+      solverError(errors.sig || 'Failed to resolve encrypted signature', 'sig')
+    )
   }
   if (nParam && !appliedNParam) {
-    return errorResponse('Failed to resolve n parameter', 500)
+    return fail(solverError(errors.n || 'Failed to resolve n parameter', 'n'))
   }
+  recordSolve(normalizedPlayerUrl)
 
   const responseData: ResolveUrlResponse = { resolved_url: url.toString() }
   return jsonResponse(responseData)
@@ -0,0 +1,168 @@
+import type { Input, Output } from '../../ejs/src/yt/solver/main.ts'
+import { getPlayerFilePath } from '../cacheManager.ts'
+import { invalidOutput, recordSolve } from '../playerHealth.ts'
+import {
+  type ApiError,
+  apiErrorResponse,
+  errorResponse,
+  jsonResponse,
+  toApiError
+} from '../shared.ts'
+import {
+  ensurePreprocessed,
+  type SolverRequest,
+  solve,
+  solveInline,
+  solverError
+} from '../solver.ts'
+import type { SolveRequest } from '../types.ts'
+import { validateUrl } from '../utils.ts'
+
+// Real players are around 3 MB
+const MAX_SCRIPT_SIZE = 10 * 1024 * 1024
+const MAX_CHALLENGES = 500
+
+/** The first thing wrong with an output, counted against the player */
+const _failure = (
+  requests: SolverRequest[],
+  output: Output
+): ApiError | undefined => {
+  if (output.type === 'error') return solverError(output.error)
+  for (const [i, r] of output.responses.entries()) {
+    const req = requests[i]
+    if (!req) continue
+    if (r.type === 'error') return solverError(r.error, req.type)
+    for (const challenge of req.challenges) {
+      const invalid = invalidOutput(req.type, challenge, r.data[challenge])
+      if (invalid) return invalid
+    }
+  }
+  return undefined
+}
+
+/** Solves with a cached player, downloading and preprocessing it as needed */
+const _solveCached = async (
+  playerUrl: string,
+  requests: SolverRequest[],
+  withPreprocessed: boolean
+): Promise<Output> => {
+  const path = await getPlayerFilePath(playerUrl)
+
+  let output: Output
+  try {
+    output = await solve(path, requests)
+  } catch (err) {
+    recordSolve(playerUrl, toApiError(err))
+    throw err
+  }
+  // Implausible values are returned as they are, but still count as failures
+  recordSolve(playerUrl, _failure(requests, output))
+  if (output.type === 'error') return output
+
+  // Only a cold solve comes back with the preprocessed player
+  const { responses } = output
+  return withPreprocessed
+    ? {
+        type: 'result',
+        preprocessed_player: await ensurePreprocessed(path),
+        responses
+      }
+    : { type: 'result', responses }
+}
+
+/**
+ * Runs an ejs solver input and returns the ejs output unchanged, so clients
+ * that speak the solver protocol can use the service directly. Failures the
+ * solver reports are part of the output; anything that keeps it from
+ * running (downloads, timeouts, a full queue) is an API error.
+ */
+export const handleSolve = async (req: Request): Promise<Response> => {
+  let body: SolveRequest
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
+  }
+
+  const {
+    type,
+    player_url,
+    player,
+    preprocessed_player,
+    requests,
+    output_preprocessed = false
+  } = body
+  if (!Array.isArray(requests) || requests.length === 0) {
+    return errorResponse(
+      'requests must be a non-empty array',
+      'INVALID_REQUEST'
+    )
+  }
+  const challenges = requests.reduce((n, r) => n + r.challenges.length, 0)
+  if (challenges > MAX_CHALLENGES) {
+    return errorResponse(
+      `requests must not exceed ${MAX_CHALLENGES} challenges`,
+      'INVALID_REQUEST'
+    )
+  }
+
+  const sources = [player_url, player, preprocessed_player].filter(
+    (s) => s !== undefined
+  )
+  if (sources.length !== 1) {
+    return errorResponse(
+      'Exactly one of player_url, player or preprocessed_player is required',
+      'INVALID_REQUEST'
+    )
+  }
+
+  if (player_url !== undefined) {
+    let playerUrl: string
+    try {
+      playerUrl = validateUrl(player_url)
+    } catch (err) {
+      return apiErrorResponse(err, 'INVALID_PLAYER_URL')
+    }
+    try {
+      return jsonResponse(
+        await _solveCached(playerUrl, requests, output_preprocessed)
+      )
+    } catch (err) {
+      return apiErrorResponse(err)
+    }
+  }
+
+  const [field, expected] =
+    player !== undefined
+      ? (['player', 'player'] as const)
+      : (['preprocessed_player', 'preprocessed'] as const)
+  if (type !== undefined && type !== expected) {
+    return errorResponse(
+      `type must be ${expected} when sending ${field}`,
+      'INVALID_REQUEST'
+    )
+  }
+  if (preprocessed_player !== undefined && output_preprocessed) {
+    return errorResponse(
+      'output_preprocessed requires player_url or player',
+      'INVALID_REQUEST'
+    )
+  }
+  const script = player ?? preprocessed_player ?? ''
+  if (script.length > MAX_SCRIPT_SIZE) {
+    return errorResponse(
+      `${field} must not exceed ${MAX_SCRIPT_SIZE} bytes`,
+      'INVALID_REQUEST'
+    )
+  }
+
+  const input: Input =
+    player !== undefined
+      ? { type: 'player', player, requests, output_preprocessed }
+      : { type: 'preprocessed', preprocessed_player: script, requests }
+  try {
+    return jsonResponse(await solveInline(input))
+  } catch (err) {
+    return apiErrorResponse(err)
+  }
+}
@@ -0,0 +1,89 @@
+import { config, type LogLevel } from './config.ts'
+import { currentRequestId } from './context.ts'
+
+type Fields = Record<string, unknown>
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40
+}
+
+const _serialize = (value: unknown): unknown => {
+  if (!(value instanceof Error)) return value
+  const { code } = value as Error & { code?: unknown }
+  return {
+    name: value.name,
+    message: value.message,
+    ...(code !== undefined && { code }),
+    stack: value.stack
+  }
+}
+
+const _text = (value: unknown): string => {
+  // Stacks would break the one-line-per-event layout; JSON output keeps them
+  if (value instanceof Error) return _text(`${value.name}: ${value.message}`)
+  // Quoted (and escaped) when it would otherwise run into the next field
+  if (typeof value === 'string') {
+    return value === '' || /[\s"=\\]/.test(value)
+      ? JSON.stringify(value)
+      : value
+  }
+  return JSON.stringify(value)
+}
+
+const _write = (
+  level: LogLevel,
+  component: string,
+  msg: string,
+  fields: Fields
+): void => {
+  // Read per call so a config reload takes effect at once
+  if (LEVELS[level] < LEVELS[config.log.level]) return
+
+  // Fields win over the ambient request ID so pool callbacks, which run
+  // outside the request, can name the request they belong to
+  const requestId = currentRequestId()
+  const all: Fields = requestId ? { request_id: requestId, ...fields } : fields
+  const out =
+    level === 'error' || level === 'warn' ? console.error : console.log
+
+  if (config.log.format === 'json') {
+    const entry: Fields = {
+      time: new Date().toISOString(),
+      level,
+      component,
+      msg
+    }
+    for (const [k, v] of Object.entries(all)) {
+      if (v !== undefined) entry[k] = _serialize(v)
+    }
+    out(JSON.stringify(entry))
+    return
+  }
+
+  let line = `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} [${component}] ${msg}`
+  for (const [k, v] of Object.entries(all)) {
+    if (v !== undefined) line += ` ${k}=${_text(v)}`
+  }
+  out(line)
+}
+
+export interface Logger {
+  debug(msg: string, fields?: Fields): void
+  info(msg: string, fields?: Fields): void
+  warn(msg: string, fields?: Fields): void
+  error(msg: string, fields?: Fields): void
+}
+
+/**
+ * Returns a logger tagged with a component name. LOG_LEVEL filters output
+ * and LOG_FORMAT picks `text` (default) or one JSON object per line.
+ */
+export const createLogger = (component: string): Logger => ({
+  debug: (msg, fields = {}) => _write('debug', component, msg, fields),
+  info: (msg, fields = {}) => _write('info', component, msg, fields),
+  warn: (msg, fields = {}) => _write('warn', component, msg, fields),
+  error: (msg, fields = {}) => _write('error', component, msg, fields)
+})
@@ -0,0 +1,152 @@
+type Labels = Record<string, string>
+
+interface Metric {
+  render(): string
+}
+
+const PREFIX = 'ytcipher_'
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60
+]
+
+const registry: Metric[] = []
+
+const _escape = (v: string): string =>
+  v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const _labelKey = (labels: Labels): string => {
+  const keys = Object.keys(labels).sort()
+  if (keys.length === 0) return ''
+  return `{${keys.map((k) => `${k}="${_escape(labels[k])}"`).join(',')}}`
+}
+
+const _header = (name: string, help: string, type: string): string =>
+  `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`
+
+class Counter implements Metric {
+  private values = new Map<string, number>()
+
+  constructor(
+    private name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = _labelKey(labels)
+    this.values.set(key, (this.values.get(key) || 0) + value)
+  }
+
+  render(): string {
+    let out = _header(this.name, this.help, 'counter')
+    for (const [key, value] of this.values) {
+      out += `${this.name}${key} ${value}\n`
+    }
+    return out
+  }
+}
+
+class Gauge implements Metric {
+  constructor(
+    private name: string,
+    private help: string,
+    private collect: () => Array<[Labels, number]>
+  ) {}
+
+  render(): string {
+    let out = _header(this.name, this.help, 'gauge')
+    for (const [labels, value] of this.collect()) {
+      out += `${this.name}${_labelKey(labels)} ${value}\n`
+    }
+    return out
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels
+  counts: number[]
+  sum: number
+  count: number
+}
+
+class Histogram implements Metric {
+  private series = new Map<string, HistogramSeries>()
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = _labelKey(labels)
+    let s = this.series.get(key)
+    if (!s) {
+      s = {
+        labels,
+        counts: new Array(this.buckets.length).fill(0),
+        sum: 0,
+        count: 0
+      }
+      this.series.set(key, s)
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) s.counts[i]++
+    }
+    s.sum += value
+    s.count++
+  }
+
+  /** Starts a timer, returning a function that records the elapsed seconds */
+  startTimer(): (labels: Labels) => void {
+    const start = performance.now()
+    return (labels) => this.observe(labels, (performance.now() - start) / 1000)
+  }
+
+  render(): string {
+    let out = _header(this.name, this.help, 'histogram')
+    for (const s of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        out += `${this.name}_bucket${_labelKey({ ...s.labels, le: `${le}` })} ${s.counts[i]}\n`
+      })
+      out += `${this.name}_bucket${_labelKey({ ...s.labels, le: '+Inf' })} ${s.count}\n`
+      out += `${this.name}_sum${_labelKey(s.labels)} ${s.sum}\n`
+      out += `${this.name}_count${_labelKey(s.labels)} ${s.count}\n`
+    }
+    return out
+  }
+}
+
+export const counter = (name: string, help: string): Counter => {
+  const m = new Counter(PREFIX + name, help)
+  registry.push(m)
+  return m
+}
+
+export const gauge = (
+  name: string,
+  help: string,
+  collect: () => Array<[Labels, number]>
+): Gauge => {
+  const m = new Gauge(PREFIX + name, help, collect)
+  registry.push(m)
+  return m
+}
+
+export const histogram = (
+  name: string,
+  help: string,
+  buckets?: number[]
+): Histogram => {
+  const m = new Histogram(PREFIX + name, help, buckets)
+  registry.push(m)
+  return m
+}
+
+/** Renders every registered metric in the Prometheus text exposition format */
+export const renderMetrics = (): string =>
+  registry.map((m) => m.render()).join('')
+
+export const cacheLookups = counter(
+  'cache_lookups_total',
+  'Cache lookups by cache name and result (hit or miss)'
+)
@@ -1,82 +1,263 @@
-import { errorResponse } from './shared.ts'
-import { validateUrl } from './utils.ts'
+import { config } from './config.ts'
+import { limitDeadline } from './context.ts'
+import { createLogger } from './logger.ts'
+import { requestSchemaFor } from './openapi.ts'
+import { validate } from './schema.ts'
+import { apiErrorResponse, errorResponse } from './shared.ts'
+import type { ApiKey, ErrorCode } from './types.ts'
+import { type Cidr, ipInCidrs, parseCidr, validateUrl } from './utils.ts'
 
 type Next = (req: Request) => Response | Promise<Response>
 
-interface RateLimit {
+export interface ClientContext {
+  apiKey?: ApiKey
+  // Address of the peer connected to us, before any forwarding headers
+  remoteIp?: string
+}
+
+type Guarded = (req: Request, client?: ClientContext) => Promise<Response>
+
+interface Bucket {
+  tokens: number
+  ts: number
+  capacity: number
+  refill: number
+}
+
+interface Quota {
+  d: string
   c: number
-  r: number
 }
 
-const RATE_MAP = new Map<string, RateLimit>()
-const MAX_REQ = 100
-const WINDOW = 60000
+interface BucketState {
+  limited: boolean
+  limit: number
+  remaining: number
+  reset: number
+  retryAfter: number
+}
+
+const log = createLogger('ratelimit')
+
+const BUCKETS = new Map<string, Bucket>()
+const QUOTA_MAP = new Map<string, Quota>()
+const DEFAULT_COST = 1
 const CLEANUP_INT = 300000
 
-const _getClient = (req: Request): string =>
-  req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
-  req.headers.get('x-real-ip') ||
-  req.headers.get('cf-connecting-ip') ||
-  'unknown'
+// Cost in tokens per route; cheap cached lookups cost less than solves.
+// rate_limit.costs overrides these.
+const ROUTE_COSTS = new Map<string, number>([
+  ['/get_sts', 0.5],
+  ['/batch_decrypt', 5],
+  ['/prewarm', 5],
+  ['/players', 5],
+  ['/solve', 5],
+  // Probes are public and polled constantly, so they never use up a bucket
+  ['/livez', 0],
+  ['/readyz', 0]
+])
+
+// Only peers in these ranges may set the client IP via forwarding headers
+const TRUSTED_PROXIES: Cidr[] = config.rate_limit.trusted_proxies.map(parseCidr)
+
+const _isTrusted = (ip: string | undefined): boolean =>
+  !!ip && TRUSTED_PROXIES.length > 0 && ipInCidrs(ip, TRUSTED_PROXIES)
+
+const _getClient = (req: Request, remoteIp?: string): string => {
+  if (!_isTrusted(remoteIp)) return remoteIp || 'unknown'
+
+  // Walk the chain right to left; the first untrusted hop is the client
+  const forwarded = req.headers.get('x-forwarded-for')
+  if (forwarded) {
+    const hops = forwarded.split(',').map((h) => h.trim())
+    for (let i = hops.length - 1; i >= 0; i--) {
+      if (hops[i] && !_isTrusted(hops[i])) return hops[i]
+    }
+  }
+  return (
+    req.headers.get('x-real-ip') ||
+    req.headers.get('cf-connecting-ip') ||
+    remoteIp ||
+    'unknown'
+  )
+}
+
+const _today = (): string => new Date().toISOString().slice(0, 10)
+
+const _refill = (b: Bucket, now: number): void => {
+  b.tokens = Math.min(b.capacity, b.tokens + ((now - b.ts) / 1000) * b.refill)
+  b.ts = now
+}
 
 const _cleanup = (): void => {
   const now = Date.now()
-  for (const [key, entry] of RATE_MAP) {
-    if (now > entry.r) RATE_MAP.delete(key)
+  for (const [key, bucket] of BUCKETS) {
+    _refill(bucket, now)
+    if (bucket.tokens >= bucket.capacity) BUCKETS.delete(key)
+  }
+  const today = _today()
+  for (const [key, entry] of QUOTA_MAP) {
+    if (entry.d !== today) QUOTA_MAP.delete(key)
   }
 }
 
 const timer = setInterval(_cleanup, CLEANUP_INT)
 if (timer.unref) timer.unref()
 
-const _isLimited = (id: string): boolean => {
+/**
+ * Takes `cost` tokens from the bucket for `id` if it has enough. A cost above
+ * the capacity takes a full bucket, so the route stays usable.
+ */
+const _take = (
+  id: string,
+  cost: number,
+  // Tokens added per second
+  capacity = config.rate_limit.capacity,
+  refill = config.rate_limit.refill
+): BucketState => {
   const now = Date.now()
-  const entry = RATE_MAP.get(id)
-  if (!entry || now > entry.r) {
-    RATE_MAP.set(id, { c: 1, r: now + WINDOW })
+  let bucket = BUCKETS.get(id)
+  if (!bucket) {
+    bucket = { tokens: capacity, ts: now, capacity, refill }
+    BUCKETS.set(id, bucket)
+  } else {
+    bucket.capacity = capacity
+    bucket.refill = refill
+    _refill(bucket, now)
+  }
+
+  const take = Math.min(cost, capacity)
+  const limited = bucket.tokens < take
+  if (!limited) bucket.tokens -= take
+
+  return {
+    limited,
+    limit: capacity,
+    remaining: Math.floor(bucket.tokens),
+    reset: Math.ceil((capacity - bucket.tokens) / refill),
+    retryAfter: limited ? Math.ceil((take - bucket.tokens) / refill) : 0
+  }
+}
+
+const _setHeaders = (res: Response, state: BucketState): Response => {
+  res.headers.set('RateLimit-Limit', `${state.limit}`)
+  res.headers.set('RateLimit-Remaining', `${state.remaining}`)
+  res.headers.set('RateLimit-Reset', `${state.reset}`)
+  if (state.limited) res.headers.set('Retry-After', `${state.retryAfter}`)
+  return res
+}
+
+/** Counts a request against the key's daily quota (UTC days) */
+const _overQuota = (key: ApiKey): boolean => {
+  if (!key.daily_quota) return false
+  const today = _today()
+  const entry = QUOTA_MAP.get(key.name)
+  if (!entry || entry.d !== today) {
+    QUOTA_MAP.set(key.name, { d: today, c: 1 })
     return false
   }
-  if (entry.c >= MAX_REQ) return true
+  if (entry.c >= key.daily_quota) return true
   entry.c++
   return false
 }
 
-export const withValidation = (handler: Next): Next => {
-  return async (req: Request): Promise<Response> => {
-    const id = _getClient(req)
-    if (_isLimited(id)) return errorResponse('Rate limit exceeded', 429)
+const _reject = (
+  req: Request,
+  key: ApiKey,
+  msg: string,
+  code: ErrorCode
+): Response => {
+  log.warn(msg, { api_key: key.name, path: new URL(req.url).pathname })
+  return errorResponse(`${msg} for API key "${key.name}"`, code)
+}
 
-    if (req.method !== 'POST') return handler(req)
+const _validate = async (
+  handler: Next,
+  req: Request,
+  pathname: string
+): Promise<Response> => {
+  // Bodies are checked against the same schemas /openapi.json publishes
+  const schema = requestSchemaFor(pathname)
+  if (req.method !== 'POST' || !schema) return handler(req)
 
-    const requestUrl = new URL(req.url)
-    if (requestUrl.pathname === '/resolve_url') {
-      return handler(req)
-    }
+  let body: Record<string, unknown>
+  try {
+    body = await req.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 'INVALID_REQUEST')
+  }
 
-    let body: Record<string, unknown>
-    try {
-      body = await req.json()
-    } catch {
-      return errorResponse('Invalid JSON body', 400)
-    }
+  const invalid = validate(schema, body)
+  if (invalid) return errorResponse(invalid, 'INVALID_REQUEST')
 
-    if (!body.player_url) return errorResponse('player_url is required', 400)
+  if (typeof body.timeout_ms === 'number') {
+    limitDeadline(Date.now() + body.timeout_ms)
+  }
 
-    let validatedUrl: string
+  if (typeof body.player_url === 'string') {
     try {
-      validatedUrl = validateUrl(body.player_url as string)
+      body.player_url = validateUrl(body.player_url)
     } catch (error) {
-      return errorResponse(
-        error instanceof Error ? error.message : 'Invalid player URL',
-        400
+      return apiErrorResponse(error, 'INVALID_PLAYER_URL')
+    }
+  }
+
+  const newReq = new Request(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body: JSON.stringify(body)
+  })
+  return handler(newReq)
+}
+
+export const withValidation = (handler: Next): Guarded => {
+  return async (
+    req: Request,
+    { apiKey, remoteIp }: ClientContext = {}
+  ): Promise<Response> => {
+    const pathname = new URL(req.url).pathname
+    const cost =
+      config.rate_limit.costs[pathname] ??
+      ROUTE_COSTS.get(pathname) ??
+      DEFAULT_COST
+
+    // A key with a limit of its own has one bucket wherever it is used
+    // from; other keys, like the legacy API_TOKEN shared by many clients,
+    // and requests without a key get one per IP
+    const ip = _getClient(req, remoteIp)
+    let state: BucketState
+    if (apiKey) {
+      const limit = apiKey.rate_limit
+      state = limit
+        ? _take(
+            `key:${apiKey.name}`,
+            cost,
+            limit.requests,
+            limit.requests / (limit.window_ms / 1000)
+          )
+        : _take(`key:${apiKey.name}:${ip}`, cost)
+      if (state.limited) {
+        return _setHeaders(
+          _reject(req, apiKey, 'Rate limit exceeded', 'RATE_LIMITED'),
+          state
+        )
+      }
+    } else {
+      state = _take(`ip:${ip}`, cost)
+      if (state.limited) {
+        return _setHeaders(
+          errorResponse('Rate limit exceeded', 'RATE_LIMITED'),
+          state
+        )
+      }
+    }
+    if (apiKey && _overQuota(apiKey)) {
+      return _setHeaders(
+        _reject(req, apiKey, 'Daily quota exceeded', 'QUOTA_EXCEEDED'),
+        state
       )
     }
 
-    const newReq = new Request(req.url, {
-      method: req.method,
-      headers: req.headers,
-      body: JSON.stringify({ ...body, player_url: validatedUrl })
-    })
-    return handler(newReq)
+    return _setHeaders(await _validate(handler, req, pathname), state)
   }
 }
@@ -0,0 +1,646 @@
+import type {
+  NumberSchema,
+  ObjectSchema,
+  Schema,
+  StringSchema
+} from './schema.ts'
+import { ERROR_STATUS } from './shared.ts'
+import type { ErrorCode } from './types.ts'
+
+interface MediaType {
+  schema: Schema
+}
+
+export interface Operation {
+  summary: string
+  description: string
+  requestBody?: { required: boolean; content: Record<string, MediaType> }
+  responses: Record<
+    string,
+    { description: string; content?: Record<string, MediaType> }
+  >
+}
+
+export interface OpenApiSpec {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  security: Array<Record<string, string[]>>
+  paths: Record<string, Record<string, Operation>>
+  components: {
+    securitySchemes: Record<string, unknown>
+    schemas: Record<string, Schema>
+  }
+}
+
+interface Endpoint {
+  method: 'get' | 'post'
+  path: string
+  summary: string
+  description: string
+  request?: ObjectSchema
+  response: Schema
+  // text/plain endpoints describe their body in the description only
+  contentType?: string
+  errors: ErrorCode[]
+}
+
+// Every route sits behind authentication and the rate limiter
+const COMMON_ERRORS: ErrorCode[] = [
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'RATE_LIMITED',
+  'QUOTA_EXCEEDED',
+  'INTERNAL_ERROR'
+]
+
+const SOLVE_ERRORS: ErrorCode[] = [
+  'INVALID_REQUEST',
+  'INVALID_PLAYER_URL',
+  'PLAYER_FETCH_FAILED',
+  'PLAYER_READ_FAILED',
+  'SIG_FUNCTION_NOT_FOUND',
+  'N_FUNCTION_NOT_FOUND',
+  'SOLVE_FAILED',
+  'INVALID_SOLVER_OUTPUT',
+  'WORKER_TIMEOUT',
+  'WORKER_FAILED',
+  'QUEUE_FULL',
+  'DEADLINE_EXCEEDED'
+]
+
+const EXAMPLE_PLAYER_URL =
+  'https://www.youtube.com/s/player/0004de42/player_ias.vflset/en_US/base.js'
+
+const playerUrl: StringSchema = {
+  type: 'string',
+  minLength: 1,
+  description:
+    'URL of the player script on youtube.com, or its path starting with /s/player/',
+  example: EXAMPLE_PLAYER_URL
+}
+
+const timeoutMs: NumberSchema = {
+  type: 'integer',
+  minimum: 1,
+  // The longest delay a timer can be armed with
+  maximum: 2147483647,
+  description:
+    'Milliseconds the client will wait; work still queued after that is dropped with DEADLINE_EXCEEDED. The X-Deadline-Ms header does the same',
+  example: 10000
+}
+
+const ERROR_REF: Schema = { $ref: '#/components/schemas/Error' }
+
+const _probeCheck = (detail: Record<string, Schema>): ObjectSchema => ({
+  type: 'object',
+  properties: {
+    ok: { type: 'boolean' },
+    error: { type: 'string', description: 'Why the check failed' },
+    ...detail
+  },
+  required: ['ok']
+})
+
+const _probeResponse = (checks: Record<string, ObjectSchema>): Schema => ({
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['ok', 'fail'], example: 'ok' },
+    checks: {
+      type: 'object',
+      properties: checks,
+      required: Object.keys(checks)
+    }
+  },
+  required: ['status', 'checks']
+})
+
+const signatureResponse: ObjectSchema = {
+  type: 'object',
+  properties: {
+    decrypted_signature: {
+      type: 'string',
+      description: 'Empty when no signature was sent'
+    },
+    decrypted_n_sig: {
+      type: 'string',
+      description: 'Empty when no n parameter was sent'
+    }
+  },
+  required: ['decrypted_signature', 'decrypted_n_sig']
+}
+
+const ENDPOINTS: Endpoint[] = [
+  {
+    method: 'post',
+    path: '/decrypt_signature',
+    summary: 'Decrypt a signature and n parameter',
+    description:
+      'Decrypts an encrypted signature and/or an n parameter with the given player.',
+    request: {
+      type: 'object',
+      properties: {
+        encrypted_signature: {
+          type: 'string',
+          description: 'The encrypted signature (the s query parameter)',
+          example: 'ZZZ-encrypted-signature'
+        },
+        n_param: {
+          type: 'string',
+          description: 'The n query parameter of the stream URL',
+          example: 'abcDEF123'
+        },
+        player_url: playerUrl,
+        timeout_ms: timeoutMs
+      },
+      required: ['player_url']
+    },
+    response: signatureResponse,
+    errors: SOLVE_ERRORS
+  },
+  {
+    method: 'post',
+    path: '/batch_decrypt',
+    summary: 'Decrypt many signatures at once',
+    description:
+      'Decrypts many signatures and n parameters, across one or more players, in a single call. Results keep the order of items; a failed item carries an error instead of the decrypted values.',
+    request: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 500,
+          items: {
+            type: 'object',
+            // Per-item problems are reported in results, not as a 400
+            properties: {
+              player_url: {
+                type: 'string',
+                description: playerUrl.description,
+                example: EXAMPLE_PLAYER_URL
+              },
+              encrypted_signature: {
+                type: 'string',
+                example: 'ZZZ-encrypted-signature'
+              },
+              n_param: { type: 'string', example: 'abcDEF123' }
+            }
+          }
+        },
+        timeout_ms: timeoutMs
+      },
+      required: ['items']
+    },
+    response: {
+      type: 'object',
+      properties: {
+        results: {
+          type: 'array',
+          items: { oneOf: [signatureResponse, ERROR_REF] }
+        }
+      },
+      required: ['results']
+    },
+    errors: ['INVALID_REQUEST']
+  },
+  {
+    method: 'post',
+    path: '/solve',
+    summary: 'Run an ejs solver input',
+    description:
+      'Takes an ejs solver Input and returns the ejs Output unchanged. Send exactly one of player_url (served from the cache like the other routes), player or preprocessed_player. Failures the solver reports are part of the Output and answered with 200.',
+    request: {
+      type: 'object',
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['player', 'preprocessed'],
+          description:
+            'The ejs input type; optional, and ignored with player_url'
+        },
+        player_url: playerUrl,
+        player: {
+          type: 'string',
+          minLength: 1,
+          description: 'A raw player script, as served by YouTube'
+        },
+        preprocessed_player: {
+          type: 'string',
+          minLength: 1,
+          description: 'A player preprocessed by ejs'
+        },
+        requests: {
+          type: 'array',
+          minItems: 1,
+          description: 'Up to 500 challenges in total',
+          items: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['sig', 'n'] },
+              challenges: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['abcDEF123']
+              }
+            },
+            required: ['type', 'challenges']
+          }
+        },
+        output_preprocessed: {
+          type: 'boolean',
+          description:
+            'Include the preprocessed player in the output; not with preprocessed_player (default: false)'
+        },
+        timeout_ms: timeoutMs
+      },
+      required: ['requests']
+    },
+    response: {
+      oneOf: [
+        {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['result'] },
+            preprocessed_player: {
+              type: 'string',
+              description: 'Only when output_preprocessed was set'
+            },
+            responses: {
+              type: 'array',
+              description: 'One per request, in the same order',
+              items: {
+                oneOf: [
+                  {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['result'] },
+                      data: {
+                        type: 'object',
+                        description: 'Solved values keyed by challenge',
+                        properties: {}
+                      }
+                    },
+                    required: ['type', 'data']
+                  },
+                  {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['error'] },
+                      error: { type: 'string' }
+                    },
+                    required: ['type', 'error']
+                  }
+                ]
+              }
+            }
+          },
+          required: ['type', 'responses']
+        },
+        {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['error'] },
+            error: { type: 'string' }
+          },
+          required: ['type', 'error']
+        }
+      ]
+    },
+    errors: SOLVE_ERRORS
+  },
+  {
+    method: 'post',
+    path: '/get_sts',
+    summary: 'Get the signature timestamp',
+    description:
+      'Extracts the STS (signature timestamp) from the player script.',
+    request: {
+      type: 'object',
+      properties: { player_url: playerUrl },
+      required: ['player_url']
+    },
+    response: {
+      type: 'object',
+      properties: { sts: { type: 'string', example: '20147' } },
+      required: ['sts']
+    },
+    errors: [
+      'INVALID_REQUEST',
+      'INVALID_PLAYER_URL',
+      'PLAYER_FETCH_FAILED',
+      'PLAYER_READ_FAILED',
+      'STS_NOT_FOUND'
+    ]
+  },
+  {
+    method: 'post',
+    path: '/resolve_url',
+    summary: 'Resolve a stream URL',
+    description:
+      'Decrypts the signature and/or n parameter of a stream URL and returns the playable URL.',
+    request: {
+      type: 'object',
+      properties: {
+        stream_url: {
+          type: 'string',
+          minLength: 1,
+          description: 'The stream URL (not the video URL)',
+          example:
+            'https://rr1---sn-example.googlevideo.com/videoplayback?n=abcDEF123'
+        },
+        player_url: playerUrl,
+        encrypted_signature: {
+          type: 'string',
+          description: 'The encrypted signature, if the stream has one'
+        },
+        signature_key: {
+          type: 'string',
+          description:
+            'Query parameter for the decrypted signature (default: sig)'
+        },
+        n_param: {
+          type: 'string',
+          description: 'The n parameter; read from stream_url when omitted'
+        },
+        timeout_ms: timeoutMs
+      },
+      required: ['stream_url', 'player_url']
+    },
+    response: {
+      type: 'object',
+      properties: { resolved_url: { type: 'string' } },
+      required: ['resolved_url']
+    },
+    errors: SOLVE_ERRORS
+  },
+  {
+    method: 'post',
+    path: '/prewarm',
+    summary: 'Prewarm players',
+    description:
+      'Downloads and preprocesses players by URL or ID, then compiles their solvers in every worker.',
+    request: {
+      type: 'object',
+      properties: {
+        players: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 50,
+          description: 'Player URLs or bare player IDs (IDs use player_ias)',
+          items: { type: 'string', minLength: 1 },
+          example: ['0004de42']
+        }
+      },
+      required: ['players']
+    },
+    response: {
+      type: 'object',
+      properties: {
+        results: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              player: { type: 'string' },
+              player_url: { type: 'string' },
+              status: { type: 'string', enum: ['warmed', 'error'] },
+              workers: {
+                type: 'integer',
+                description: 'Live workers the player was compiled in'
+              },
+              error: { type: 'string' },
+              code: { type: 'string' }
+            },
+            required: ['player', 'status']
+          }
+        }
+      },
+      required: ['results']
+    },
+    errors: ['INVALID_REQUEST']
+  },
+  {
+    method: 'post',
+    path: '/players',
+    summary: 'Upload a player script',
+    description:
+      'Stores a player script in the cache under its URL, after checking that the sig and n functions can be extracted. Requires UPLOAD_TOKEN or ADMIN_TOKEN.',
+    request: {
+      type: 'object',
+      properties: {
+        player: {
+          type: 'string',
+          minLength: 1,
+          description: 'Player URL or bare player ID (IDs use player_ias)',
+          example: '0004de42'
+        },
+        script: {
+          type: 'string',
+          minLength: 1,
+          description: 'The player JavaScript, as served by YouTube',
+          example: 'var _yt_player={};...'
+        },
+        timeout_ms: timeoutMs
+      },
+      required: ['player', 'script']
+    },
+    response: {
+      type: 'object',
+      properties: {
+        player_url: { type: 'string' },
+        size: { type: 'integer', description: 'Script length in characters' }
+      },
+      required: ['player_url', 'size']
+    },
+    errors: [
+      'INVALID_REQUEST',
+      'INVALID_PLAYER_URL',
+      'INVALID_PLAYER_SCRIPT',
+      'SIG_FUNCTION_NOT_FOUND',
+      'N_FUNCTION_NOT_FOUND',
+      'WORKER_TIMEOUT',
+      'QUEUE_FULL',
+      'DEADLINE_EXCEEDED'
+    ]
+  },
+  {
+    method: 'get',
+    path: '/health',
+    summary: 'Health check',
+    description:
+      'Returns ok while the server is running, or degraded while some players are marked broken after repeated failed or implausible solves.',
+    response: {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['ok', 'degraded'], example: 'ok' },
+        service: { type: 'string', example: 'yt-cipher-bun' },
+        broken_players: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              player_url: { type: 'string' },
+              broken_since: { type: 'string', format: 'date-time' },
+              consecutive_failures: { type: 'integer' },
+              successes: { type: 'integer' },
+              failures: { type: 'integer' },
+              last_error: { type: 'string' }
+            },
+            required: [
+              'player_url',
+              'broken_since',
+              'consecutive_failures',
+              'successes',
+              'failures',
+              'last_error'
+            ]
+          }
+        }
+      },
+      required: ['status', 'service', 'broken_players']
+    },
+    errors: []
+  },
+  {
+    method: 'get',
+    path: '/livez',
+    summary: 'Liveness probe',
+    description:
+      'Checks that the event loop turns, idle workers answer a ping and the worker pool is not stuck. Public. Answers 503 with the same body when a check fails.',
+    response: _probeResponse({
+      event_loop: _probeCheck({ lag_ms: { type: 'integer' } }),
+      worker_pool: _probeCheck({
+        workers: { type: 'integer' },
+        busy: { type: 'integer' },
+        idle: { type: 'integer' },
+        queued: { type: 'integer' },
+        oldest_task_ms: { type: 'integer' }
+      })
+    }),
+    errors: []
+  },
+  {
+    method: 'get',
+    path: '/readyz',
+    summary: 'Readiness probe',
+    description:
+      'Solves sample challenges with a cached player (reused for CANARY_INTERVAL), checks that the cache is writable and that fewer than READYZ_MAX_QUEUE solves are queued. Fails once a shutdown has started. Public. Answers 503 with the same body when a check fails.',
+    response: _probeResponse({
+      shutdown: _probeCheck({}),
+      canary: _probeCheck({
+        player_url: { type: 'string' },
+        ms: { type: 'integer' },
+        cached: { type: 'boolean' },
+        skipped: {
+          type: 'string',
+          description: 'Set when no cached player could be solved yet'
+        }
+      }),
+      cache: _probeCheck({ ms: { type: 'integer' } }),
+      queue: _probeCheck({
+        queued: { type: 'integer' },
+        max: { type: 'integer' }
+      })
+    }),
+    errors: []
+  },
+  {
+    method: 'get',
+    path: '/metrics',
+    summary: 'Prometheus metrics',
+    description:
+      'Metrics in the Prometheus text format. Accepts METRICS_TOKEN instead of an API token when one is set.',
+    response: { type: 'string' },
+    contentType: 'text/plain',
+    errors: []
+  }
+]
+
+const REQUEST_SCHEMAS = new Map(
+  ENDPOINTS.flatMap((e) => (e.request ? [[e.path, e.request] as const] : []))
+)
+
+/** The request body schema of a route, if it takes a JSON body */
+export const requestSchemaFor = (pathname: string): ObjectSchema | undefined =>
+  REQUEST_SCHEMAS.get(pathname)
+
+const _errorResponses = (codes: ErrorCode[]): Operation['responses'] => {
+  const byStatus = new Map<number, ErrorCode[]>()
+  for (const code of [...codes, ...COMMON_ERRORS]) {
+    const status = ERROR_STATUS[code]
+    const list = byStatus.get(status) || []
+    if (!list.includes(code)) list.push(code)
+    byStatus.set(status, list)
+  }
+  return Object.fromEntries(
+    [...byStatus]
+      .sort(([a], [b]) => a - b)
+      .map(([status, list]) => [
+        `${status}`,
+        {
+          description: list.join(', '),
+          content: { 'application/json': { schema: ERROR_REF } }
+        }
+      ])
+  )
+}
+
+const _operation = (e: Endpoint): Operation => ({
+  summary: e.summary,
+  description: e.description,
+  ...(e.request && {
+    requestBody: {
+      required: true,
+      content: { 'application/json': { schema: e.request } }
+    }
+  }),
+  responses: {
+    200: {
+      description: 'Success',
+      content: {
+        [e.contentType || 'application/json']: { schema: e.response }
+      }
+    },
+    ..._errorResponses(e.errors)
+  }
+})
+
+const _buildSpec = (): OpenApiSpec => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'yt-cipher API',
+    version: '1.0.0',
+    description:
+      'Decrypts YouTube stream signatures and n parameters. Errors always have the Error shape; branch on code, not on the message.'
+  },
+  security: [{ apiToken: [] }],
+  paths: Object.fromEntries(
+    ENDPOINTS.map((e) => [e.path, { [e.method]: _operation(e) }])
+  ),
+  components: {
+    securitySchemes: {
+      apiToken: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'Authorization',
+        description: 'The raw token, without a Bearer prefix'
+      }
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        properties: {
+          error: { type: 'string', description: 'Human-readable message' },
+          code: {
+            type: 'string',
+            enum: Object.keys(ERROR_STATUS),
+            description: 'Stable machine-readable code'
+          }
+        },
+        required: ['error', 'code']
+      }
+    }
+  }
+})
+
+export const OPENAPI_SPEC: OpenApiSpec = _buildSpec()
@@ -0,0 +1,133 @@
+import { config } from './config.ts'
+import { createLogger } from './logger.ts'
+import { counter, gauge } from './metrics.ts'
+import { ApiError } from './shared.ts'
+import type { SolverRequest } from './solver.ts'
+import type { BrokenPlayer, ErrorCode } from './types.ts'
+
+const MAX_TRACKED_PLAYERS = 500
+
+// What ejs hands back when a player's n function throws
+const FALLBACK_RE = /enhanced_except_/
+// n values are URL-safe base64 both before and after solving
+const N_VALUE_RE = /^[\w-]+$/
+
+// Failures that say something about the player rather than about us
+const SOLVER_FAILURES = new Set<ErrorCode>([
+  'SOLVE_FAILED',
+  'SIG_FUNCTION_NOT_FOUND',
+  'N_FUNCTION_NOT_FOUND',
+  'INVALID_SOLVER_OUTPUT'
+])
+
+interface PlayerStats {
+  successes: number
+  failures: number
+  consecutive: number
+  lastError?: string
+  brokenSince?: number
+}
+
+const log = createLogger('solver')
+
+// Insertion order doubles as LRU order: entries are re-added on each solve
+const players = new Map<string, PlayerStats>()
+
+const solvesTotal = counter(
+  'player_solves_total',
+  'Solves by outcome (ok, invalid, error); invalid means the output failed the sanity checks'
+)
+
+gauge('broken_players', 'Players currently marked broken', () => [
+  [{}, brokenPlayers().length]
+])
+
+/**
+ * Checks a solved value for the ways a solver fails silently after a player
+ * change. Returns why the value is implausible, or null.
+ */
+export const checkSolved = (
+  type: SolverRequest['type'],
+  challenge: string,
+  value: string | undefined
+): string | null => {
+  if (!value) return `Solver returned an empty ${type} value`
+  if (FALLBACK_RE.test(value)) {
+    return `Solver returned a fallback ${type} value`
+  }
+  if (value === challenge) return `Solver returned the ${type} value unchanged`
+  if (type === 'n' && !N_VALUE_RE.test(value)) {
+    return 'Solver returned an n value with unexpected characters'
+  }
+  return null
+}
+
+/** checkSolved as an INVALID_SOLVER_OUTPUT error */
+export const invalidOutput = (
+  type: SolverRequest['type'],
+  challenge: string,
+  value: string | undefined
+): ApiError | null => {
+  const reason = checkSolved(type, challenge, value)
+  return reason ? new ApiError('INVALID_SOLVER_OUTPUT', reason) : null
+}
+
+/**
+ * Records the outcome of solving with a player: a success without `error`,
+ * otherwise a failure if the error points at the player. Other errors
+ * (downloads, timeouts, cancellations) are not counted.
+ */
+export const recordSolve = (playerUrl: string, error?: ApiError): void => {
+  if (error && !SOLVER_FAILURES.has(error.code)) return
+
+  let stats = players.get(playerUrl)
+  if (stats) players.delete(playerUrl)
+  else stats = { successes: 0, failures: 0, consecutive: 0 }
+  players.set(playerUrl, stats)
+  if (players.size > MAX_TRACKED_PLAYERS) {
+    const oldest = players.keys().next().value
+    if (oldest !== undefined) players.delete(oldest)
+  }
+
+  if (!error) {
+    solvesTotal.inc({ result: 'ok' })
+    stats.successes++
+    stats.consecutive = 0
+    if (stats.brokenSince) {
+      stats.brokenSince = undefined
+      log.info('Player recovered', { player_url: playerUrl })
+    }
+    return
+  }
+
+  solvesTotal.inc({
+    result: error.code === 'INVALID_SOLVER_OUTPUT' ? 'invalid' : 'error'
+  })
+  stats.failures++
+  stats.consecutive++
+  stats.lastError = error.message
+  // Consecutive failed solves after which a player is reported as broken
+  const threshold = config.players.broken_threshold
+  if (!stats.brokenSince && stats.consecutive >= threshold) {
+    stats.brokenSince = Date.now()
+    log.warn('Player marked broken', {
+      player_url: playerUrl,
+      consecutive_failures: stats.consecutive,
+      error: error.message
+    })
+  }
+}
+
+/** Players whose recent solves all failed, most recently broken first */
+export const brokenPlayers = (): BrokenPlayer[] =>
+  [...players]
+    .filter(([, s]) => s.brokenSince)
+    .sort(([, a], [, b]) => (b.brokenSince ?? 0) - (a.brokenSince ?? 0))
+    .map(([playerUrl, s]) => ({
+      player_url: playerUrl,
+      broken_since: new Date(s.brokenSince ?? 0).toISOString(),
+      consecutive_failures: s.consecutive,
+      successes: s.successes,
+      failures: s.failures,
+      last_error: s.lastError ?? ''
+    }))
@@ -0,0 +1,48 @@
+import { getPlayerFilePath, listRecentPlayers } from './cacheManager.ts'
+import { ensurePreprocessed } from './solver.ts'
+import { createLogger } from './logger.ts'
+import { toApiError } from './shared.ts'
+import type { PrewarmResult } from './types.ts'
+import { resolvePlayerRef } from './utils.ts'
+import { warmWorkers } from './workerPool.ts'
+
+const log = createLogger('prewarm')
+
+/**
+ * Downloads and preprocesses a player through the regular cache path, then
+ * has every worker compile its solvers.
+ */
+export const prewarmPlayer = async (player: string): Promise<PrewarmResult> => {
+  try {
+    const playerUrl = resolvePlayerRef(player)
+    const path = await getPlayerFilePath(playerUrl)
+    const preprocessed = await ensurePreprocessed(path)
+    const workers = warmWorkers(path, preprocessed)
+    return { player, player_url: playerUrl, status: 'warmed', workers }
+  } catch (err) {
+    const { message, code } = toApiError(err)
+    return { player, status: 'error', error: message, code }
+  }
+}
+
+export const prewarmPlayers = (players: string[]): Promise<PrewarmResult[]> =>
+  Promise.all(players.map(prewarmPlayer))
+
+/** Prewarms the most recently used players found in the cache */
+export const prewarmRecent = async (limit: number): Promise<void> => {
+  const urls = await listRecentPlayers(limit)
+  if (urls.length === 0) return
+
+  const results = await prewarmPlayers(urls)
+  const failed = results.filter((r) => r.status === 'error')
+  log.info(
+    `Warmed ${results.length - failed.length}/${results.length} recent players`
+  )
+  for (const r of failed) {
+    log.error('Failed to prewarm player', {
+      player: r.player,
+      code: r.code,
+      error: r.error
+    })
+  }
+}
@@ -0,0 +1,218 @@
+import {
+  checkCacheWritable,
+  findCachedPlayer,
+  listRecentPlayers
+} from './cacheManager.ts'
+import { config } from './config.ts'
+import { runInScope } from './context.ts'
+import { createLogger } from './logger.ts'
+import { brokenPlayers, checkSolved } from './playerHealth.ts'
+import { type SolverRequest, solve } from './solver.ts'
+import type { ProbeCheck } from './types.ts'
+import { resolvePlayerRef } from './utils.ts'
+import { pingWorkers, poolHealth } from './workerPool.ts'
+
+const LAG_SAMPLE_INT = 500
+const CANARY_CANDIDATES = 10
+// An idle worker answers a ping at once; this only allows for a busy machine
+const WORKER_PING_TIMEOUT = 1000
+
+const CANARY_REQUESTS: SolverRequest[] = [
+  {
+    type: 'sig',
+    challenges: [
+      'AOq0QJ8wRAIgReadinessCanarySignatureChallengeSample0123456789ab'
+    ]
+  },
+  { type: 'n', challenges: ['ReadyzCanaryN012'] }
+]
+
+const log = createLogger('probes')
+
+let loopLag = 0
+let expected = performance.now() + LAG_SAMPLE_INT
+const lagTimer = setInterval(() => {
+  const now = performance.now()
+  loopLag = Math.max(0, now - expected)
+  expected = now + LAG_SAMPLE_INT
+}, LAG_SAMPLE_INT)
+if (lagTimer.unref) lagTimer.unref()
+
+let draining = false
+let canary: { at: number; check: ProbeCheck } | undefined
+let canaryRun: Promise<ProbeCheck> | undefined
+
+const _message = (err: unknown): string =>
+  err instanceof Error ? err.message : `${err}`
+
+/**
+ * Both a sampled delay and one more turn must stay under probes.max_loop_lag,
+ * past which the process counts as wedged
+ */
+const _checkEventLoop = async (): Promise<ProbeCheck> => {
+  const start = performance.now()
+  await new Promise((resolve) => setImmediate(resolve))
+  const lag = Math.max(loopLag, performance.now() - start)
+  const check: ProbeCheck = {
+    ok: lag <= config.probes.max_loop_lag,
+    lag_ms: Math.round(lag)
+  }
+  if (!check.ok) check.error = `Event loop lagging by ${check.lag_ms}ms`
+  return check
+}
+
+const _checkWorkerPool = async (): Promise<ProbeCheck> => {
+  const health = poolHealth()
+  if (!health) return { ok: false, error: 'Worker pool not started' }
+  const { timeout_ms, ...detail } = health
+  // Timed out tasks are killed, so one running far longer means a stuck pool
+  if (health.oldest_task_ms > timeout_ms * 2) {
+    return {
+      ok: false,
+      error: `A task has been running for ${health.oldest_task_ms}ms`,
+      ...detail
+    }
+  }
+  const unanswered = (await pingWorkers(WORKER_PING_TIMEOUT)) ?? 0
+  if (unanswered > 0) {
+    return {
+      ok: false,
+      error: `${unanswered} idle workers did not answer within ${WORKER_PING_TIMEOUT}ms`,
+      ...detail
+    }
+  }
+  return { ok: true, ...detail }
+}
+
+const _checkQueue = (): ProbeCheck => {
+  const queued = poolHealth()?.queued ?? 0
+  const max = config.probes.max_queue
+  return queued < max
+    ? { ok: true, queued, max }
+    : { ok: false, queued, max, error: `${queued} solves queued` }
+}
+
+const _checkCache = async (): Promise<ProbeCheck> => {
+  const start = performance.now()
+  try {
+    await checkCacheWritable()
+    return { ok: true, ms: Math.round(performance.now() - start) }
+  } catch (err) {
+    return { ok: false, error: `Cache not writable: ${_message(err)}` }
+  }
+}
+
+/** The configured canary, or the most recent cached player not marked broken */
+const _pickCanary = async (
+  canaryPlayer: string
+): Promise<{ playerUrl: string; path: string } | undefined> => {
+  if (canaryPlayer) {
+    const playerUrl = resolvePlayerRef(canaryPlayer)
+    const path = await findCachedPlayer(playerUrl)
+    return path ? { playerUrl, path } : undefined
+  }
+  const broken = new Set(brokenPlayers().map((p) => p.player_url))
+  for (const playerUrl of await listRecentPlayers(CANARY_CANDIDATES)) {
+    if (broken.has(playerUrl)) continue
+    const path = await findCachedPlayer(playerUrl)
+    if (path) return { playerUrl, path }
+  }
+  return undefined
+}
+
+const _runCanary = async (): Promise<ProbeCheck> => {
+  const { canary_player, canary_timeout } = config.probes
+  const picked = await _pickCanary(canary_player)
+  if (!picked) {
+    // A fresh instance has nothing cached yet and should still take traffic
+    return canary_player
+      ? { ok: false, error: `Canary player not cached: ${canary_player}` }
+      : { ok: true, skipped: 'No cached player to solve' }
+  }
+
+  const { playerUrl, path } = picked
+  const start = performance.now()
+  try {
+    // Its own scope, so a probe that hangs up doesn't cancel the shared run
+    const output = await runInScope(
+      {
+        requestId: `canary-${crypto.randomUUID()}`,
+        deadline: Date.now() + canary_timeout
+      },
+      () => solve(path, CANARY_REQUESTS)
+    )
+    const ms = Math.round(performance.now() - start)
+    if (output.type === 'error') {
+      return { ok: false, player_url: playerUrl, ms, error: output.error }
+    }
+    for (const [i, req] of CANARY_REQUESTS.entries()) {
+      const r = output.responses[i]
+      if (r?.type !== 'result') {
+        return {
+          ok: false,
+          player_url: playerUrl,
+          ms,
+          error: r?.error ?? `No ${req.type} response`
+        }
+      }
+      const challenge = req.challenges[0]
+      const reason = checkSolved(req.type, challenge, r.data[challenge])
+      if (reason) return { ok: false, player_url: playerUrl, ms, error: reason }
+    }
+    return { ok: true, player_url: playerUrl, ms }
+  } catch (err) {
+    return {
+      ok: false,
+      player_url: playerUrl,
+      ms: Math.round(performance.now() - start),
+      error: _message(err)
+    }
+  }
+}
+
+/**
+ * Canary solve, reused for probes.canary_interval so probes don't each cost
+ * a solve, and shared by concurrent probes
+ */
+const _checkCanary = async (): Promise<ProbeCheck> => {
+  if (canary && Date.now() - canary.at < config.probes.canary_interval) {
+    return { ...canary.check, cached: true }
+  }
+  if (!canaryRun) {
+    canaryRun = _runCanary()
+      .then((check) => {
+        if (!check.ok) log.warn('Canary solve failed', { ...check })
+        canary = { at: Date.now(), check }
+        return check
+      })
+      .finally(() => {
+        canaryRun = undefined
+      })
+  }
+  return canaryRun
+}
+
+/** Fails readiness from now on, so traffic moves away during shutdown */
+export const startDraining = (): void => {
+  draining = true
+}
+
+/** Whether the process is alive: the event loop turns and the pool moves */
+export const checkLiveness = async (): Promise<Record<string, ProbeCheck>> => {
+  const [event_loop, worker_pool] = await Promise.all([
+    _checkEventLoop(),
+    _checkWorkerPool()
+  ])
+  return { event_loop, worker_pool }
+}
+
+/** Whether the instance should take traffic: it can solve, cache and keep up */
+export const checkReadiness = async (): Promise<Record<string, ProbeCheck>> => {
+  const [solver, cache] = await Promise.all([_checkCanary(), _checkCache()])
+  return {
+    shutdown: draining ? { ok: false, error: 'Shutting down' } : { ok: true },
+    canary: solver,
+    cache,
+    queue: _checkQueue()
+  }
+}
@@ -0,0 +1,315 @@
+import { existsSync } from 'node:fs'
+import { mkdir, readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { Input, Output } from '../ejs/src/yt/solver/main.ts'
+import { getPlayerContent, getPlayerFilePath } from './cacheManager.ts'
+import type { SolverRequest } from './solver.ts'
+import type {
+  RegressionFixture,
+  RegressionMismatch,
+  RegressionMode,
+  RegressionResult,
+  SolverOutcome
+} from './types.ts'
+import { extractPlayerId, resolvePlayerRef } from './utils.ts'
+import { execInPool } from './workerPool.ts'
+
+export const FIXTURES_DIR = join(process.cwd(), 'regression', 'fixtures')
+
+const FIXTURE_FILE = 'fixture.json'
+const PLAYER_FILE = 'player.js'
+const EJS_DIR = new URL('../ejs', import.meta.url).pathname
+
+// Shaped like real challenges: signatures are ~108 chars, n values 16
+const SIG_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_='
+const N_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'
+const SIG_LENGTH = 108
+const N_LENGTH = 16
+
+export interface CaptureOptions {
+  sig?: string[]
+  n?: string[]
+  samples?: number
+  dir?: string
+}
+
+export interface LoadedFixture {
+  fixture: RegressionFixture
+  player: string
+}
+
+/** mulberry32; seeded per player so recaptures reuse the same challenges */
+const _prng = (seed: number): (() => number) => {
+  let a = seed >>> 0
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0
+    let t = a
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const _sample = (rand: () => number, chars: string, length: number): string => {
+  let out = ''
+  for (let i = 0; i < length; i++) {
+    out += chars[Math.floor(rand() * chars.length)]
+  }
+  return out
+}
+
+const _ejsVersion = (): string => {
+  // Without its own .git, git would report this repository's commit
+  if (!existsSync(join(EJS_DIR, '.git'))) return 'unknown'
+  try {
+    const res = Bun.spawnSync(['git', '-C', EJS_DIR, 'rev-parse', 'HEAD'])
+    return res.success ? res.stdout.toString().trim() : 'unknown'
+  } catch {
+    return 'unknown'
+  }
+}
+
+/** `<player id>-<variant>`, e.g. `0004de42-player_ias` */
+const _fixtureName = (playerUrl: string): string => {
+  const segment = new URL(playerUrl).pathname.split('/')[4] || 'player'
+  const variant = segment.replace(/\.vflset$/, '')
+  return `${extractPlayerId(playerUrl)}-${variant}`.replace(/[^\w-]/g, '_')
+}
+
+const _exec = (input: Input & { cacheKey?: string }): Promise<Output> =>
+  // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
+  execInPool(input as any)
+
+/** Per request type: the solved values, or the error the solver reported */
+const _outcomes = (
+  requests: SolverRequest[],
+  output: Output
+): Partial<Record<SolverRequest['type'], SolverOutcome>> => {
+  const outcomes: Partial<Record<SolverRequest['type'], SolverOutcome>> = {}
+  requests.forEach((req, i) => {
+    if (output.type === 'error') {
+      outcomes[req.type] = { error: output.error }
+      return
+    }
+    const r = output.responses[i]
+    if (!r) outcomes[req.type] = { error: 'No response' }
+    else outcomes[req.type] = r.type === 'result' ? r.data : { error: r.error }
+  })
+  return outcomes
+}
+
+const _describe = (outcome: SolverOutcome | undefined): string => {
+  if (!outcome) return 'nothing'
+  return 'error' in outcome && typeof outcome.error === 'string'
+    ? `error: ${outcome.error}`
+    : 'result'
+}
+
+const _compare = (
+  expected: RegressionFixture['expected'],
+  actual: Partial<Record<SolverRequest['type'], SolverOutcome>>
+): RegressionMismatch[] => {
+  const mismatches: RegressionMismatch[] = []
+  for (const type of ['sig', 'n'] as const) {
+    const exp = expected[type]
+    const act = actual[type]
+    if (!exp) continue
+
+    const expError = 'error' in exp && typeof exp.error === 'string'
+    const actError = !act || ('error' in act && typeof act.error === 'string')
+    if (expError || actError) {
+      if (_describe(exp) !== _describe(act)) {
+        mismatches.push({
+          type,
+          expected: _describe(exp),
+          actual: _describe(act)
+        })
+      }
+      continue
+    }
+
+    for (const [challenge, value] of Object.entries(exp)) {
+      const got = (act as Record<string, string>)[challenge]
+      if (got !== value) {
+        mismatches.push({
+          type,
+          challenge,
+          expected: value,
+          actual: got ?? '(missing)'
+        })
+      }
+    }
+  }
+  return mismatches
+}
+
+/**
+ * Captures a cached player as a fixture: generates sample challenges (plus
+ * any given ones), solves them with the current ejs and stores the player,
+ * challenges and answers under `<dir>/<name>/`.
+ */
+export const captureFixture = async (
+  ref: string,
+  { sig = [], n = [], samples = 3, dir = FIXTURES_DIR }: CaptureOptions = {}
+): Promise<RegressionFixture> => {
+  const playerUrl = resolvePlayerRef(ref)
+  const player = await getPlayerContent(await getPlayerFilePath(playerUrl))
+  const name = _fixtureName(playerUrl)
+
+  const rand = _prng(Bun.hash.crc32(name))
+  const sigs = [...sig]
+  const ns = [...n]
+  for (let i = 0; i < samples; i++) {
+    sigs.push(_sample(rand, SIG_CHARS, SIG_LENGTH))
+    ns.push(_sample(rand, N_CHARS, N_LENGTH))
+  }
+  const requests: SolverRequest[] = [
+    { type: 'sig', challenges: sigs },
+    { type: 'n', challenges: ns }
+  ]
+
+  const output = await _exec({
+    type: 'player',
+    player,
+    output_preprocessed: false,
+    requests
+  })
+  if (output.type === 'error') {
+    throw new Error(`Solver failed on ${name}: ${output.error}`)
+  }
+
+  const fixture: RegressionFixture = {
+    name,
+    player_url: playerUrl,
+    captured_at: new Date().toISOString(),
+    ejs_version: _ejsVersion(),
+    requests,
+    expected: _outcomes(requests, output)
+  }
+
+  const fixtureDir = join(dir, name)
+  await mkdir(fixtureDir, { recursive: true })
+  await Bun.write(join(fixtureDir, PLAYER_FILE), player)
+  await Bun.write(
+    join(fixtureDir, FIXTURE_FILE),
+    `${JSON.stringify(fixture, null, 2)}\n`
+  )
+  return fixture
+}
+
+/** Loads every fixture under `dir`, optionally only names containing `filter` */
+export const loadFixtures = async (
+  dir = FIXTURES_DIR,
+  filter?: string
+): Promise<LoadedFixture[]> => {
+  let entries: string[]
+  try {
+    entries = await readdir(dir)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+
+  const loaded: LoadedFixture[] = []
+  for (const entry of entries.sort()) {
+    if (filter && !entry.includes(filter)) continue
+    const file = Bun.file(join(dir, entry, FIXTURE_FILE))
+    if (!(await file.exists())) continue
+    loaded.push({
+      fixture: (await file.json()) as RegressionFixture,
+      player: await Bun.file(join(dir, entry, PLAYER_FILE)).text()
+    })
+  }
+  return loaded
+}
+
+const _check = async (
+  fixture: RegressionFixture,
+  mode: RegressionMode,
+  exec: () => Promise<Output>
+): Promise<{ result: RegressionResult; output?: Output }> => {
+  const start = performance.now()
+  try {
+    const output = await exec()
+    const ms = performance.now() - start
+    const mismatches = _compare(
+      fixture.expected,
+      _outcomes(fixture.requests, output)
+    )
+    return {
+      result: {
+        fixture: fixture.name,
+        mode,
+        ok: mismatches.length === 0,
+        ms,
+        mismatches
+      },
+      output
+    }
+  } catch (err) {
+    return {
+      result: {
+        fixture: fixture.name,
+        mode,
+        ok: false,
+        ms: performance.now() - start,
+        mismatches: [],
+        error: err instanceof Error ? err.message : `${err}`
+      }
+    }
+  }
+}
+
+/**
+ * Re-solves a fixture through the worker pool the way the server does:
+ * from the raw player, from the preprocessed player, and with solvers
+ * already compiled in the worker (the hot path for repeat requests).
+ */
+export const runFixture = async ({
+  fixture,
+  player
+}: LoadedFixture): Promise<RegressionResult[]> => {
+  const { requests } = fixture
+
+  const raw = await _check(fixture, 'player', () =>
+    _exec({ type: 'player', player, output_preprocessed: true, requests })
+  )
+  const results = [raw.result]
+
+  const preprocessed =
+    raw.output?.type === 'result' ? raw.output.preprocessed_player : undefined
+  if (!preprocessed) {
+    for (const mode of ['preprocessed', 'cached'] as const) {
+      results.push({
+        fixture: fixture.name,
+        mode,
+        ok: false,
+        ms: 0,
+        mismatches: [],
+        error: 'Skipped: player mode produced no preprocessed player'
+      })
+    }
+    return results
+  }
+
+  const pre = await _check(fixture, 'preprocessed', () =>
+    _exec({ type: 'preprocessed', preprocessed_player: preprocessed, requests })
+  )
+  results.push(pre.result)
+
+  // The first call compiles and caches the solvers; time the second
+  const cacheKey = `regression:${fixture.name}`
+  const input = {
+    type: 'preprocessed' as const,
+    preprocessed_player: preprocessed,
+    requests,
+    cacheKey
+  }
+  await _exec(input).catch(() => undefined)
+  const cached = await _check(fixture, 'cached', () => _exec(input))
+  results.push(cached.result)
+
+  return results
+}
@@ -0,0 +1,140 @@
+/**
+ * The JSON Schema subset used by the API: enough to describe our request
+ * and response bodies in the OpenAPI document and to validate requests.
+ */
+export type Schema =
+  | StringSchema
+  | NumberSchema
+  | BooleanSchema
+  | ArraySchema
+  | ObjectSchema
+  | OneOfSchema
+  | RefSchema
+
+interface BaseSchema {
+  description?: string
+  example?: unknown
+}
+
+export interface StringSchema extends BaseSchema {
+  type: 'string'
+  enum?: string[]
+  format?: string
+  minLength?: number
+}
+
+export interface NumberSchema extends BaseSchema {
+  type: 'number' | 'integer'
+  minimum?: number
+  maximum?: number
+}
+
+export interface BooleanSchema extends BaseSchema {
+  type: 'boolean'
+}
+
+export interface ArraySchema extends BaseSchema {
+  type: 'array'
+  items: Schema
+  minItems?: number
+  maxItems?: number
+}
+
+export interface ObjectSchema extends BaseSchema {
+  type: 'object'
+  properties: Record<string, Schema>
+  required?: string[]
+}
+
+export interface OneOfSchema extends BaseSchema {
+  oneOf: Schema[]
+}
+
+export interface RefSchema {
+  $ref: string
+}
+
+const _typeOf = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const _matchesType = (type: string, value: unknown): boolean => {
+  if (type === 'integer') return Number.isInteger(value)
+  return _typeOf(value) === type
+}
+
+/**
+ * Validates a value against a schema. Returns a message naming the first
+ * offending field, or null when the value is valid. `$ref` and `oneOf` only
+ * appear in responses and are not checked.
+ */
+export const validate = (
+  schema: Schema,
+  value: unknown,
+  path = 'body'
+): string | null => {
+  if (!('type' in schema)) return null
+
+  if (!_matchesType(schema.type, value)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a'
+    return `${path} must be ${article} ${schema.type}`
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      const str = value as string
+      if (schema.minLength !== undefined && str.length < schema.minLength) {
+        return `${path} must not be empty`
+      }
+      if (schema.enum && !schema.enum.includes(str)) {
+        return `${path} must be one of ${schema.enum.join(', ')}`
+      }
+      return null
+    }
+    case 'number':
+    case 'integer':
+      if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+        return `${path} must be at least ${schema.minimum}`
+      }
+      if (schema.maximum !== undefined && (value as number) > schema.maximum) {
+        return `${path} must be at most ${schema.maximum}`
+      }
+      return null
+    case 'array': {
+      const arr = value as unknown[]
+      if (schema.minItems !== undefined && arr.length < schema.minItems) {
+        return schema.minItems === 1
+          ? `${path} must be a non-empty array`
+          : `${path} must have at least ${schema.minItems} items`
+      }
+      if (schema.maxItems !== undefined && arr.length > schema.maxItems) {
+        return `${path} must not exceed ${schema.maxItems}`
+      }
+      for (let i = 0; i < arr.length; i++) {
+        const err = validate(schema.items, arr[i], `${path}[${i}]`)
+        if (err) return err
+      }
+      return null
+    }
+    case 'object': {
+      const obj = value as Record<string, unknown>
+      // Top-level fields are named without the `body.` prefix
+      const prefix = path === 'body' ? '' : `${path}.`
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined || obj[key] === null || obj[key] === '') {
+          return `${prefix}${key} is required`
+        }
+      }
+      for (const [key, prop] of Object.entries(schema.properties)) {
+        if (obj[key] === undefined) continue
+        const err = validate(prop, obj[key], `${prefix}${key}`)
+        if (err) return err
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
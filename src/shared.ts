@@ -1,5 +1,79 @@
-export const errorResponse = (msg: string, status: number): Response =>
-  Response.json({ error: msg }, { status })
+import type { ErrorBody, ErrorCode } from './types.ts'
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_PLAYER_URL: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  PLAYER_FETCH_FAILED: 502,
+  PLAYER_NOT_CACHED: 404,
+  INVALID_PLAYER_SCRIPT: 422,
+  PLAYER_READ_FAILED: 500,
+  STS_NOT_FOUND: 422,
+  SIG_FUNCTION_NOT_FOUND: 422,
+  N_FUNCTION_NOT_FOUND: 422,
+  SOLVE_FAILED: 500,
+  INVALID_SOLVER_OUTPUT: 500,
+  WORKER_TIMEOUT: 504,
+  WORKER_FAILED: 500,
+  QUEUE_FULL: 503,
+  SHUTTING_DOWN: 503,
+  // nginx's "client closed request"; the client is gone and never sees it
+  REQUEST_CANCELLED: 499,
+  DEADLINE_EXCEEDED: 504,
+  INTERNAL_ERROR: 500
+}
+
+/** Error carrying an ErrorCode, thrown anywhere below the handlers */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'ApiError'
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code]
+  }
+
+  toJSON(): ErrorBody {
+    return { error: this.message, code: this.code }
+  }
+}
+
+/**
+ * Wraps anything thrown into an ApiError. Unknown errors get the fallback
+ * code; their message is kept since none of our own errors carry secrets.
+ */
+export const toApiError = (
+  err: unknown,
+  fallback: ErrorCode = 'INTERNAL_ERROR'
+): ApiError => {
+  if (err instanceof ApiError) return err
+  return new ApiError(
+    fallback,
+    err instanceof Error ? err.message : 'Unknown error'
+  )
+}
+
+export const errorResponse = (msg: string, code: ErrorCode): Response =>
+  Response.json({ error: msg, code } satisfies ErrorBody, {
+    status: ERROR_STATUS[code]
+  })
+
+export const apiErrorResponse = (
+  err: unknown,
+  fallback?: ErrorCode
+): Response => {
+  const e = toApiError(err, fallback)
+  return errorResponse(e.message, e.code)
+}
 
 export const jsonResponse = (data: unknown, status = 200): Response =>
   Response.json(data, { status })
@@ -0,0 +1,224 @@
+import type { Input, Output } from '../ejs/src/yt/solver/main.ts'
+import {
+  getPlayerContent,
+  getPreprocessed,
+  setPreprocessed
+} from './cacheManager.ts'
+import { currentLimits } from './context.ts'
+import { ApiError } from './shared.ts'
+import { createSingleFlight } from './utils.ts'
+import { execInPool } from './workerPool.ts'
+
+export interface SolverRequest {
+  type: 'sig' | 'n'
+  challenges: string[]
+}
+
+// Messages the solver uses when it cannot locate a function in the player
+const NOT_FOUND_RE = /extract|not found|find/i
+
+/**
+ * Maps a solver error to an ApiError. `type` is the request the error was
+ * reported for; errors for the whole output have none.
+ */
+export const solverError = (
+  message: string,
+  type?: SolverRequest['type']
+): ApiError => {
+  if (type && NOT_FOUND_RE.test(message)) {
+    return new ApiError(
+      type === 'sig' ? 'SIG_FUNCTION_NOT_FOUND' : 'N_FUNCTION_NOT_FOUND',
+      message
+    )
+  }
+  return new ApiError('SOLVE_FAILED', message)
+}
+
+/** Key under which a solved sig/n pair is stored in the signature cache */
+export const signatureKey = (path: string, sig: string, n: string): string =>
+  `${path}:${sig}:${n}`
+
+const _exec = (
+  path: string,
+  requests: SolverRequest[],
+  preprocessed: string
+): Promise<Output> => {
+  const input = {
+    type: 'preprocessed' as const,
+    preprocessed_player: preprocessed,
+    requests,
+    cacheKey: path
+  }
+  // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
+  return execInPool(input as any, currentLimits())
+}
+
+/**
+ * Solves against the raw player and stores the preprocessed copy. Runs once
+ * per path at a time; concurrent callers wait on the same run, which is
+ * bound to the cancellation and deadline of the request that started it.
+ */
+const _preprocess = async (
+  path: string,
+  requests: SolverRequest[]
+): Promise<Output> => {
+  let player: string
+  try {
+    player = await getPlayerContent(path)
+  } catch {
+    throw new ApiError('PLAYER_READ_FAILED', 'Failed to read player file')
+  }
+
+  const input = {
+    type: 'player' as const,
+    player,
+    output_preprocessed: true,
+    requests,
+    cacheKey: path
+  }
+  // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
+  const output = await execInPool(input as any, currentLimits())
+
+  if (output.type === 'result' && output.preprocessed_player) {
+    await setPreprocessed(path, output.preprocessed_player)
+  }
+  return output
+}
+
+const preprocessing = createSingleFlight<Output>()
+
+/**
+ * Joins the preprocessing run for a path, starting it if needed. If the
+ * request that started it goes away, joiners start their own run rather
+ * than failing with its cancellation.
+ */
+const _preprocessShared = async (
+  path: string,
+  requests: SolverRequest[]
+): Promise<{ output: Output; led: boolean }> => {
+  let led = false
+  try {
+    const output = await preprocessing.run(path, () => {
+      led = true
+      return _preprocess(path, requests)
+    })
+    return { output, led }
+  } catch (err) {
+    const abandoned =
+      err instanceof ApiError &&
+      (err.code === 'REQUEST_CANCELLED' || err.code === 'DEADLINE_EXCEEDED')
+    if (led || !abandoned) throw err
+    return _preprocessShared(path, requests)
+  }
+}
+
+// Any input will do: verification only needs both functions to run
+const VERIFY_REQUESTS: SolverRequest[] = [
+  {
+    type: 'sig',
+    challenges: [
+      'AOq0QJ8wRAIgVerifyPlayerScriptSignatureChallengeSample0123456789'
+    ]
+  },
+  { type: 'n', challenges: ['VerifyNParam0123'] }
+]
+
+/**
+ * Runs the given challenges against a cached player in the worker pool.
+ * Uses the preprocessed copy when available and stores it after a cold solve.
+ */
+export const solve = async (
+  path: string,
+  requests: SolverRequest[]
+): Promise<Output> => {
+  const preprocessed = await getPreprocessed(path)
+  if (preprocessed) return _exec(path, requests, preprocessed)
+
+  const { output, led } = await _preprocessShared(path, requests)
+  if (led) return output
+
+  // Joined another request's preprocessing run: reuse its result for our
+  // own challenges, or share its failure
+  if (output.type === 'error') return output
+  if (output.preprocessed_player) {
+    return _exec(path, requests, output.preprocessed_player)
+  }
+  return _preprocess(path, requests)
+}
+
+/**
+ * Runs an ejs input that carries its own player. Workers keep the compiled
+ * solvers under the input type and a hash of the player, so clients sending
+ * the same player again skip compiling it.
+ */
+export const solveInline = async (input: Input): Promise<Output> => {
+  // A solver cache hit skips preprocessing, so a request for the
+  // preprocessed player always runs in full
+  if (input.type === 'player' && input.output_preprocessed) {
+    return execInPool(input, currentLimits())
+  }
+
+  const code =
+    input.type === 'player' ? input.player : input.preprocessed_player
+  // A raw and a preprocessed player compile differently, even from one text
+  const cacheKey = `inline:${input.type}:${Bun.hash(code).toString(16)}`
+  // Workers only cache solvers when they have the preprocessed player, so
+  // ask for it and leave it out of the answer
+  const output: Output = await execInPool(
+    // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
+    { ...input, output_preprocessed: true, cacheKey } as any,
+    currentLimits()
+  )
+  if (output.type === 'error') return output
+  return { type: 'result', responses: output.responses }
+}
+
+/**
+ * Returns the preprocessed player for a path, preprocessing it first when
+ * needed. Shares any preprocessing run already in flight for the path.
+ */
+export const ensurePreprocessed = async (path: string): Promise<string> => {
+  const preprocessed = await getPreprocessed(path)
+  if (preprocessed) return preprocessed
+
+  const { output } = await _preprocessShared(path, [])
+  if (output.type === 'error') throw solverError(output.error)
+  if (!output.preprocessed_player) {
+    throw new ApiError('SOLVE_FAILED', 'Worker returned no preprocessed player')
+  }
+  return output.preprocessed_player
+}
+
+/**
+ * Checks that a player script parses and that its sig and n functions can
+ * be extracted and run. Returns the preprocessed player.
+ */
+export const verifyPlayer = async (player: string): Promise<string> => {
+  const input = {
+    type: 'player' as const,
+    player,
+    output_preprocessed: true,
+    requests: VERIFY_REQUESTS
+  }
+  // biome-ignore lint/suspicious/noExplicitAny: WorkerPool input casts to any
+  const output = await execInPool(input as any, currentLimits())
+  if (output.type === 'error') {
+    throw new ApiError('INVALID_PLAYER_SCRIPT', output.error)
+  }
+
+  output.responses.forEach((r, i) => {
+    if (r.type !== 'error') return
+    const err = solverError(r.error, VERIFY_REQUESTS[i].type)
+    // Anything failing on our own sample input is a problem with the script
+    throw err.code === 'SOLVE_FAILED'
+      ? new ApiError('INVALID_PLAYER_SCRIPT', err.message)
+      : err
+  })
+  if (!output.preprocessed_player) {
+    throw new ApiError(
+      'INVALID_PLAYER_SCRIPT',
+      'Worker returned no preprocessed player'
+    )
+  }
+  return output.preprocessed_player
+}
@@ -0,0 +1,475 @@
+import { mkdir, readdir, rename, stat } from 'node:fs/promises'
+import { basename, join } from 'node:path'
+import { createLogger } from '../logger.ts'
+import type {
+  CacheStore,
+  PlayerRecord,
+  ProcessedRecord,
+  ReconcileStats
+} from '../types.ts'
+
+const META_SAVE_DELAY = 5000
+const META_VERSION = 1
+const PROCESSED_SUFFIX = '_processed.js'
+// Files written this recently may not have their metadata entry yet
+const RECONCILE_MIN_AGE = 60000
+// The shape of every key cacheManager stores players under. Anything else in
+// the directory was not written by the store and is never adopted or deleted.
+const PLAYER_KEY = /^[\w-]+__player_[\w-]+$/
+
+interface Metadata {
+  version: number
+  players: Record<string, PlayerRecord>
+  processed: Record<string, ProcessedRecord>
+}
+
+// MIGRATIONS[v] upgrades metadata from version v to v + 1. Files written
+// before versioning count as version 0.
+// biome-ignore lint/suspicious/noExplicitAny: older layouts are untyped
+const MIGRATIONS: Array<(meta: any) => any> = [
+  // 0 -> 1: same layout, only the version field is new
+  (meta) => meta
+]
+
+const log = createLogger('cache')
+
+const _isTime = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v)
+
+/** Keeps the well-formed records of a players or processed map */
+const _records = <T extends ProcessedRecord>(
+  value: unknown,
+  valid: (r: Record<string, unknown>) => boolean
+): Record<string, T> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expected an object of records')
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([, r]) =>
+        r && typeof r === 'object' && _isTime(r.t) && _isTime(r.a) && valid(r)
+    )
+  ) as Record<string, T>
+}
+
+/** Brings parsed metadata up to META_VERSION; throws if it is unusable */
+const _migrate = (raw: unknown): { meta: Metadata; from: number } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('not a JSON object')
+  }
+  // biome-ignore lint/suspicious/noExplicitAny: validated below
+  let meta: any = raw
+  const from = meta.version ?? 0
+  if (!Number.isInteger(from) || from < 0 || from > META_VERSION) {
+    throw new Error(`unsupported version ${meta.version}`)
+  }
+  for (let v = from; v < META_VERSION; v++) meta = MIGRATIONS[v](meta)
+  return {
+    meta: {
+      version: META_VERSION,
+      players: _records<PlayerRecord>(
+        meta.players,
+        (r) => typeof r.url === 'string'
+      ),
+      processed: _records<ProcessedRecord>(meta.processed, () => true)
+    },
+    from
+  }
+}
+
+/**
+ * Default store: player sources as `<key>.js` files, preprocessed code under
+ * `processed/`, and metadata in a debounced `meta.json`. STS values are not
+ * persisted; the in-memory cache in front of the store is enough.
+ *
+ * `meta.json` is replaced atomically and carries a schema version. When it is
+ * missing or unreadable it is rebuilt from the files on disk, taking player
+ * URLs from `recoverUrl`; players it cannot map back are deleted. Only files
+ * named like player keys are touched, so other files in the directory stay.
+ */
+export class FileStore implements CacheStore {
+  readonly name = 'file'
+  private processedDir: string
+  private metaFile: string
+  private metadata: Metadata = {
+    version: META_VERSION,
+    players: {},
+    processed: {}
+  }
+  private loading: Promise<void> | undefined
+  private saving: Promise<void> = Promise.resolve()
+  private metaDirty = false
+  private saveTimer: ReturnType<typeof setTimeout> | undefined
+  // Logged once each rather than on every reconcile
+  private foreign = new Set<string>()
+
+  constructor(
+    private cacheDir: string,
+    private recoverUrl?: (cacheKey: string) => string | undefined
+  ) {
+    this.processedDir = join(cacheDir, 'processed')
+    this.metaFile = join(cacheDir, 'meta.json')
+    process.on('exit', () => {
+      if (this.saveTimer) clearTimeout(this.saveTimer)
+    })
+  }
+
+  private getFilePath(
+    hash: string,
+    baseDir: string = this.cacheDir,
+    suffix: string = '.js'
+  ): string {
+    return join(baseDir, `${hash}${suffix}`)
+  }
+
+  private processedFile(path: string): string {
+    return this.getFilePath(
+      basename(path, '.js'),
+      this.processedDir,
+      PROCESSED_SUFFIX
+    )
+  }
+
+  private loadMeta(): Promise<void> {
+    // Shared, so concurrent first calls don't each rebuild
+    this.loading ??= this.readMeta().catch((err) => {
+      this.loading = undefined
+      throw err
+    })
+    return this.loading
+  }
+
+  private async readMeta(): Promise<void> {
+    let raw: unknown
+    try {
+      raw = await Bun.file(this.metaFile).json()
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return this.rebuild()
+      if (err.code) throw err
+      return this.rebuild(`unreadable: ${err.message}`)
+    }
+
+    let migrated: { meta: Metadata; from: number }
+    try {
+      migrated = _migrate(raw)
+    } catch (err) {
+      return this.rebuild((err as Error).message)
+    }
+    this.metadata = migrated.meta
+    if (migrated.from !== META_VERSION) {
+      log.info('Migrated cache metadata', {
+        from: migrated.from,
+        to: META_VERSION
+      })
+      this.scheduleSave()
+    }
+  }
+
+  /**
+   * Starts over from the files on disk. A corrupt `meta.json` is kept as
+   * `meta.json.corrupt` for inspection.
+   */
+  private async rebuild(reason?: string): Promise<void> {
+    if (reason) {
+      await rename(this.metaFile, `${this.metaFile}.corrupt`).catch(() => {})
+    }
+    this.metadata = { version: META_VERSION, players: {}, processed: {} }
+    const stats = await this.scan(0)
+    if (reason) {
+      log.warn('Cache metadata corrupt, rebuilt from files', {
+        reason,
+        ...stats
+      })
+    } else if (stats.adopted > 0 || stats.deleted > 0) {
+      log.warn('Cache metadata missing, rebuilt from files', { ...stats })
+    }
+    this.metaDirty = true
+    await this.saveMeta()
+  }
+
+  /**
+   * Matches the files on disk against the metadata: adopts unlisted players
+   * whose URL can be recovered (and their preprocessed code), deletes other
+   * unlisted files named like player keys and drops entries whose file is
+   * gone. Files with other names are not ours and are only logged. Anything
+   * younger than `minAge` may be mid-write and is left alone.
+   */
+  private async scan(minAge: number): Promise<ReconcileStats> {
+    const now = Date.now()
+    const stats: ReconcileStats = { adopted: 0, deleted: 0, dropped: 0 }
+    const { players, processed } = this.metadata
+
+    const settled = async (file: string): Promise<number | undefined> => {
+      try {
+        const info = await stat(file)
+        return info.isFile() && now - info.mtimeMs >= minAge
+          ? info.mtimeMs
+          : undefined
+      } catch {
+        return undefined
+      }
+    }
+
+    const ours = (dir: string, name: string, cacheKey: string): boolean => {
+      if (PLAYER_KEY.test(cacheKey)) return true
+      const file = join(dir, name)
+      if (!this.foreign.has(file)) {
+        this.foreign.add(file)
+        log.info('Leaving unrecognised file in cache directory', { file })
+      }
+      return false
+    }
+
+    const playerFiles = new Set(await readdir(this.cacheDir))
+    const listed = new Set(
+      Object.keys(players).map((k) => basename(this.pathFor(k)))
+    )
+    for (const name of playerFiles) {
+      if (!name.endsWith('.js') || listed.has(name)) continue
+      const cacheKey = basename(name, '.js')
+      if (!ours(this.cacheDir, name, cacheKey)) continue
+      const file = join(this.cacheDir, name)
+      const t = await settled(file)
+      if (t === undefined) continue
+      const url = this.recoverUrl?.(cacheKey)
+      if (url) {
+        players[cacheKey] = { url, t: Math.round(t), a: Math.round(t) }
+        stats.adopted++
+      } else {
+        await this.unlinkFile(file)
+        stats.deleted++
+      }
+    }
+    for (const [cacheKey, record] of Object.entries(players)) {
+      if (now - record.t < minAge) continue
+      if (playerFiles.has(basename(this.pathFor(cacheKey)))) continue
+      delete players[cacheKey]
+      stats.dropped++
+    }
+
+    const playerPaths = new Set(
+      Object.keys(players).map((k) => this.pathFor(k))
+    )
+    const processedFiles = new Set(await readdir(this.processedDir))
+    for (const name of processedFiles) {
+      if (!name.endsWith(PROCESSED_SUFFIX)) continue
+      const cacheKey = name.slice(0, -PROCESSED_SUFFIX.length)
+      const path = join(this.cacheDir, `${cacheKey}.js`)
+      if (processed[path]) continue
+      if (!ours(this.processedDir, name, cacheKey)) continue
+      const file = join(this.processedDir, name)
+      const t = await settled(file)
+      if (t === undefined) continue
+      if (playerPaths.has(path)) {
+        processed[path] = { t: Math.round(t), a: Math.round(t) }
+        stats.adopted++
+      } else {
+        await this.unlinkFile(file)
+        stats.deleted++
+      }
+    }
+    for (const [path, record] of Object.entries(processed)) {
+      if (now - record.t < minAge) continue
+      if (processedFiles.has(basename(this.processedFile(path)))) continue
+      delete processed[path]
+      stats.dropped++
+    }
+
+    if (stats.adopted > 0 || stats.dropped > 0) this.scheduleSave()
+    return stats
+  }
+
+  private async writeMeta(): Promise<void> {
+    if (!this.metaDirty) return
+    this.metaDirty = false
+    const tmp = `${this.metaFile}.tmp`
+    try {
+      await Bun.write(tmp, JSON.stringify(this.metadata))
+      // A crash or full disk leaves the old meta.json, never half of one
+      await rename(tmp, this.metaFile)
+    } catch (err) {
+      this.metaDirty = true
+      await this.unlinkFile(tmp)
+      throw err
+    }
+  }
+
+  private saveMeta(): Promise<void> {
+    // Queued behind any save in progress, which uses the same temp file
+    const run = this.saving.catch(() => {}).then(() => this.writeMeta())
+    this.saving = run
+    return run
+  }
+
+  private scheduleSave(): void {
+    this.metaDirty = true
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined
+      this.saveMeta().catch((error) =>
+        log.error('Failed to save cache metadata', { error })
+      )
+    }, META_SAVE_DELAY)
+  }
+
+  private async unlinkFile(path: string): Promise<void> {
+    try {
+      const exists = await Bun.file(path).exists()
+      if (exists) await Bun.file(path).delete()
+    } catch {}
+  }
+
+  async init(): Promise<void> {
+    await mkdir(this.cacheDir, { recursive: true })
+    await mkdir(this.processedDir, { recursive: true })
+    await this.loadMeta()
+  }
+
+  async checkWritable(): Promise<void> {
+    for (const dir of [this.cacheDir, this.processedDir]) {
+      const probe = join(dir, `.write-check-${process.pid}`)
+      await Bun.write(probe, '')
+      await Bun.file(probe).delete()
+    }
+  }
+
+  pathFor(cacheKey: string): string {
+    return this.getFilePath(cacheKey.replace(/[^a-zA-Z0-9_-]/g, '_'))
+  }
+
+  stats(): { players: number; processed: number } {
+    return {
+      players: Object.keys(this.metadata.players).length,
+      processed: Object.keys(this.metadata.processed).length
+    }
+  }
+
+  async getPlayer(cacheKey: string): Promise<PlayerRecord | undefined> {
+    await this.loadMeta()
+    return this.metadata.players[cacheKey]
+  }
+
+  hasPlayerContent(cacheKey: string): Promise<boolean> {
+    return Bun.file(this.pathFor(cacheKey)).exists()
+  }
+
+  async readPlayer(path: string): Promise<string> {
+    try {
+      const mapped = Bun.mmap(path)
+      return typeof mapped === 'string'
+        ? mapped
+        : new TextDecoder().decode(mapped)
+    } catch (error) {
+      const isUnsupportedMmap =
+        error instanceof Error &&
+        /mmapFile is not supported on Windows/i.test(error.message)
+      if (!isUnsupportedMmap) throw error
+      return (Bun.file(path) as any).text({ cache: true })
+    }
+  }
+
+  async putPlayer(
+    cacheKey: string,
+    record: PlayerRecord,
+    content: string
+  ): Promise<void> {
+    await this.loadMeta()
+    const filePath = this.pathFor(cacheKey)
+    try {
+      await Bun.write(filePath, content)
+    } catch (err) {
+      // Never leave a partially written player behind
+      await this.unlinkFile(filePath)
+      throw err
+    }
+    this.metadata.players[cacheKey] = record
+    this.scheduleSave()
+  }
+
+  async touchPlayer(cacheKey: string, a: number): Promise<void> {
+    await this.loadMeta()
+    const meta = this.metadata.players[cacheKey]
+    if (!meta) return
+    meta.a = a
+    this.scheduleSave()
+  }
+
+  async deletePlayer(cacheKey: string): Promise<void> {
+    await this.loadMeta()
+    await this.unlinkFile(this.pathFor(cacheKey))
+    delete this.metadata.players[cacheKey]
+    this.scheduleSave()
+  }
+
+  async listPlayers(): Promise<Array<[string, PlayerRecord]>> {
+    await this.loadMeta()
+    return Object.entries(this.metadata.players)
+  }
+
+  async playerSize(cacheKey: string): Promise<number> {
+    return Bun.file(this.pathFor(cacheKey)).size
+  }
+
+  async getProcessed(path: string): Promise<ProcessedRecord | undefined> {
+    await this.loadMeta()
+    return this.metadata.processed[path]
+  }
+
+  readProcessed(path: string): Promise<string> {
+    return Bun.file(this.processedFile(path)).text()
+  }
+
+  async putProcessed(
+    path: string,
+    record: ProcessedRecord,
+    content: string
+  ): Promise<void> {
+    await this.loadMeta()
+    await Bun.write(this.processedFile(path), content)
+    this.metadata.processed[path] = record
+    this.scheduleSave()
+  }
+
+  async touchProcessed(path: string, a: number): Promise<void> {
+    await this.loadMeta()
+    const meta = this.metadata.processed[path]
+    if (!meta) return
+    meta.a = a
+    this.scheduleSave()
+  }
+
+  async deleteProcessed(path: string): Promise<void> {
+    await this.loadMeta()
+    await this.unlinkFile(this.processedFile(path))
+    delete this.metadata.processed[path]
+    this.scheduleSave()
+  }
+
+  async listProcessed(): Promise<Array<[string, ProcessedRecord]>> {
+    await this.loadMeta()
+    return Object.entries(this.metadata.processed)
+  }
+
+  async processedSize(path: string): Promise<number> {
+    return Bun.file(this.processedFile(path)).size
+  }
+
+  async getSts(): Promise<undefined> {
+    return undefined
+  }
+
+  async putSts(): Promise<void> {}
+
+  async deleteSts(): Promise<void> {}
+
+  async purgeSts(): Promise<void> {}
+
+  async flush(): Promise<void> {
+    await this.saveMeta()
+  }
+
+  async reconcile(): Promise<ReconcileStats> {
+    await this.loadMeta()
+    return this.scan(RECONCILE_MIN_AGE)
+  }
+}
@@ -0,0 +1,274 @@
+import { Database } from 'bun:sqlite'
+import { mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type {
+  CacheStore,
+  PlayerRecord,
+  ProcessedRecord,
+  ReconcileStats
+} from '../types.ts'
+
+const PATH_PREFIX = 'sqlite:'
+const BUSY_TIMEOUT = 5000
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS players (
+  key TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  t INTEGER NOT NULL,
+  a INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS processed (
+  path TEXT PRIMARY KEY,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  t INTEGER NOT NULL,
+  a INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS sts (
+  path TEXT PRIMARY KEY,
+  sts TEXT NOT NULL,
+  t INTEGER NOT NULL
+);
+`
+
+/**
+ * Shared store for several processes on one host (or a volume with working
+ * file locks). Every read goes to the database, so a player downloaded or
+ * preprocessed by one replica is immediately visible to the others. WAL mode
+ * plus a busy timeout lets concurrent writers queue instead of failing.
+ */
+export class SqliteStore implements CacheStore {
+  readonly name = 'sqlite'
+  private db: Database | undefined
+
+  constructor(private file: string) {}
+
+  private get conn(): Database {
+    if (!this.db) throw new Error('SQLite cache store not initialized')
+    return this.db
+  }
+
+  private keyOf(path: string): string {
+    return path.startsWith(PATH_PREFIX) ? path.slice(PATH_PREFIX.length) : path
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return
+    await mkdir(dirname(this.file), { recursive: true })
+    this.db = new Database(this.file, { create: true })
+    this.db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT}`)
+    this.db.exec('PRAGMA journal_mode = WAL')
+    this.db.exec('PRAGMA synchronous = NORMAL')
+    this.db.exec(SCHEMA)
+    // Immediate, so replicas starting together don't both add the column
+    this.db
+      .transaction(() => {
+        this.addSizeColumn('players')
+        this.addSizeColumn('processed')
+      })
+      .immediate()
+  }
+
+  /**
+   * Sizes are stored on write so the disk budget never reads content back.
+   * Databases from before the column get it, filled in once.
+   */
+  private addSizeColumn(table: 'players' | 'processed'): void {
+    const columns = this.conn
+      .query<{ name: string }, []>(`PRAGMA table_info(${table})`)
+      .all()
+    if (columns.some((c) => c.name === 'size')) return
+    this.conn.exec(
+      `ALTER TABLE ${table} ADD COLUMN size INTEGER NOT NULL DEFAULT 0`
+    )
+    this.conn.exec(`UPDATE ${table} SET size = length(CAST(content AS BLOB))`)
+  }
+
+  pathFor(cacheKey: string): string {
+    return `${PATH_PREFIX}${cacheKey}`
+  }
+
+  stats(): { players: number; processed: number } {
+    if (!this.db) return { players: 0, processed: 0 }
+    const row = this.db
+      .query<{ players: number; processed: number }, []>(
+        'SELECT (SELECT COUNT(*) FROM players) AS players, (SELECT COUNT(*) FROM processed) AS processed'
+      )
+      .get()
+    return row || { players: 0, processed: 0 }
+  }
+
+  async getPlayer(cacheKey: string): Promise<PlayerRecord | undefined> {
+    return (
+      this.conn
+        .query<PlayerRecord, [string]>(
+          'SELECT url, t, a FROM players WHERE key = ?'
+        )
+        .get(cacheKey) || undefined
+    )
+  }
+
+  async hasPlayerContent(cacheKey: string): Promise<boolean> {
+    return !!this.conn
+      .query<{ k: number }, [string]>(
+        'SELECT 1 AS k FROM players WHERE key = ?'
+      )
+      .get(cacheKey)
+  }
+
+  async readPlayer(path: string): Promise<string> {
+    const row = this.conn
+      .query<{ content: string }, [string]>(
+        'SELECT content FROM players WHERE key = ?'
+      )
+      .get(this.keyOf(path))
+    if (!row) throw new Error(`Player not found in cache: ${path}`)
+    return row.content
+  }
+
+  async putPlayer(
+    cacheKey: string,
+    record: PlayerRecord,
+    content: string
+  ): Promise<void> {
+    this.conn
+      .query(
+        'INSERT OR REPLACE INTO players (key, url, content, size, t, a) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        cacheKey,
+        record.url,
+        content,
+        Buffer.byteLength(content),
+        record.t,
+        record.a
+      )
+  }
+
+  async touchPlayer(cacheKey: string, a: number): Promise<void> {
+    this.conn.query('UPDATE players SET a = ? WHERE key = ?').run(a, cacheKey)
+  }
+
+  async deletePlayer(cacheKey: string): Promise<void> {
+    this.conn.query('DELETE FROM players WHERE key = ?').run(cacheKey)
+  }
+
+  async listPlayers(): Promise<Array<[string, PlayerRecord]>> {
+    return this.conn
+      .query<PlayerRecord & { key: string }, []>(
+        'SELECT key, url, t, a FROM players'
+      )
+      .all()
+      .map(({ key, ...record }) => [key, record])
+  }
+
+  async playerSize(cacheKey: string): Promise<number> {
+    const row = this.conn
+      .query<{ size: number }, [string]>(
+        'SELECT size FROM players WHERE key = ?'
+      )
+      .get(cacheKey)
+    return row?.size ?? 0
+  }
+
+  async getProcessed(path: string): Promise<ProcessedRecord | undefined> {
+    return (
+      this.conn
+        .query<ProcessedRecord, [string]>(
+          'SELECT t, a FROM processed WHERE path = ?'
+        )
+        .get(path) || undefined
+    )
+  }
+
+  async readProcessed(path: string): Promise<string> {
+    const row = this.conn
+      .query<{ content: string }, [string]>(
+        'SELECT content FROM processed WHERE path = ?'
+      )
+      .get(path)
+    if (!row) throw new Error(`Preprocessed player not found: ${path}`)
+    return row.content
+  }
+
+  async putProcessed(
+    path: string,
+    record: ProcessedRecord,
+    content: string
+  ): Promise<void> {
+    this.conn
+      .query(
+        'INSERT OR REPLACE INTO processed (path, content, size, t, a) VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(path, content, Buffer.byteLength(content), record.t, record.a)
+  }
+
+  async touchProcessed(path: string, a: number): Promise<void> {
+    this.conn.query('UPDATE processed SET a = ? WHERE path = ?').run(a, path)
+  }
+
+  async deleteProcessed(path: string): Promise<void> {
+    this.conn.query('DELETE FROM processed WHERE path = ?').run(path)
+  }
+
+  async listProcessed(): Promise<Array<[string, ProcessedRecord]>> {
+    return this.conn
+      .query<ProcessedRecord & { path: string }, []>(
+        'SELECT path, t, a FROM processed'
+      )
+      .all()
+      .map(({ path, ...record }) => [path, record])
+  }
+
+  async processedSize(path: string): Promise<number> {
+    const row = this.conn
+      .query<{ size: number }, [string]>(
+        'SELECT size FROM processed WHERE path = ?'
+      )
+      .get(path)
+    return row?.size ?? 0
+  }
+
+  async getSts(path: string): Promise<{ sts: string; t: number } | undefined> {
+    return (
+      this.conn
+        .query<{ sts: string; t: number }, [string]>(
+          'SELECT sts, t FROM sts WHERE path = ?'
+        )
+        .get(path) || undefined
+    )
+  }
+
+  async putSts(path: string, sts: string, t: number): Promise<void> {
+    this.conn
+      .query('INSERT OR REPLACE INTO sts (path, sts, t) VALUES (?, ?, ?)')
+      .run(path, sts, t)
+  }
+
+  async deleteSts(path: string): Promise<void> {
+    this.conn.query('DELETE FROM sts WHERE path = ?').run(path)
+  }
+
+  async purgeSts(before: number): Promise<void> {
+    this.conn.query('DELETE FROM sts WHERE t < ?').run(before)
+  }
+
+  async flush(): Promise<void> {}
+
+  // Rows hold their own content, so metadata and content cannot drift apart
+  async reconcile(): Promise<ReconcileStats> {
+    return { adopted: 0, deleted: 0, dropped: 0 }
+  }
+
+  async checkWritable(): Promise<void> {
+    // Rewriting a header field is a real write: it fails on a read-only
+    // file or disk, unlike BEGIN IMMEDIATE
+    const row = this.conn
+      .query<{ user_version: number }, []>('PRAGMA user_version')
+      .get()
+    this.conn.exec(`PRAGMA user_version = ${row?.user_version ?? 0}`)
+  }
+}
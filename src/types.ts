@@ -1,4 +1,66 @@
 // types.ts - Type definitions
+/**
+ * Stable, machine-readable error codes. Clients should branch on these
+ * rather than on `error` messages, which are meant for humans and may change.
+ */
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_PLAYER_URL'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'PLAYER_FETCH_FAILED'
+  | 'PLAYER_NOT_CACHED'
+  | 'INVALID_PLAYER_SCRIPT'
+  | 'PLAYER_READ_FAILED'
+  | 'STS_NOT_FOUND'
+  | 'SIG_FUNCTION_NOT_FOUND'
+  | 'N_FUNCTION_NOT_FOUND'
+  | 'SOLVE_FAILED'
+  | 'INVALID_SOLVER_OUTPUT'
+  | 'WORKER_TIMEOUT'
+  | 'WORKER_FAILED'
+  | 'QUEUE_FULL'
+  | 'SHUTTING_DOWN'
+  | 'REQUEST_CANCELLED'
+  | 'DEADLINE_EXCEEDED'
+  | 'INTERNAL_ERROR'
+
+export interface ErrorBody {
+  error: string
+  code: ErrorCode
+}
+
+export interface BrokenPlayer {
+  player_url: string
+  broken_since: string
+  consecutive_failures: number
+  successes: number
+  failures: number
+  last_error: string
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded'
+  service: string
+  broken_players: BrokenPlayer[]
+}
+
+/** One probe check; anything besides `ok` and `error` is detail */
+export interface ProbeCheck {
+  ok: boolean
+  error?: string
+  [detail: string]: unknown
+}
+
+export interface ProbeResponse {
+  status: 'ok' | 'fail'
+  checks: Record<string, ProbeCheck>
+}
+
 export interface SignatureRequest {
   encrypted_signature: string
   n_param: string
@@ -10,6 +72,35 @@ export interface SignatureResponse {
   decrypted_n_sig: string
 }
 
+export interface BatchDecryptItem {
+  player_url: string
+  encrypted_signature?: string
+  n_param?: string
+}
+
+export interface BatchDecryptRequest {
+  items: BatchDecryptItem[]
+}
+
+export type BatchDecryptResult = SignatureResponse | ErrorBody
+
+export interface BatchDecryptResponse {
+  results: BatchDecryptResult[]
+}
+
+/**
+ * An ejs solver input. The player comes inline, raw or preprocessed, or as
+ * a player_url that is served from the cache.
+ */
+export interface SolveRequest {
+  type?: 'player' | 'preprocessed'
+  player_url?: string
+  player?: string
+  preprocessed_player?: string
+  requests: Array<{ type: 'sig' | 'n'; challenges: string[] }>
+  output_preprocessed?: boolean
+}
+
 export interface StsRequest {
   player_url: string
 }
@@ -30,14 +121,170 @@ export interface ResolveUrlResponse {
   resolved_url: string
 }
 
+export interface ApiKey {
+  name: string
+  key: string
+  expires_at?: string
+  rate_limit?: { requests: number; window_ms: number }
+  daily_quota?: number
+  routes?: string[]
+}
+
 export interface Solvers {
   n: ((val: string) => string) | null
   sig: ((val: string) => string) | null
 }
 
+export interface PrewarmRequest {
+  players: string[]
+}
+
+export interface PrewarmResult {
+  player: string
+  player_url?: string
+  status: 'warmed' | 'error'
+  workers?: number
+  error?: string
+  code?: ErrorCode
+}
+
+export interface PrewarmResponse {
+  results: PrewarmResult[]
+}
+
+export interface PlayerUploadRequest {
+  player: string
+  script: string
+}
+
+export interface PlayerUploadResponse {
+  player_url: string
+  size: number
+}
+
+export interface PlayerRecord {
+  url: string
+  t: number
+  a: number
+}
+
+export interface ProcessedRecord {
+  t: number
+  a: number
+}
+
+export interface CachedPlayerInfo {
+  key: string
+  url: string
+  created_at: string
+  last_access: string
+  age_ms: number
+  size: number
+  processed: {
+    created_at: string
+    last_access: string
+    age_ms: number
+    size: number
+  } | null
+}
+
+export type SolverOutcome = Record<string, string> | { error: string }
+
+/** A player plus challenges and the answers the solver gave at capture */
+export interface RegressionFixture {
+  name: string
+  player_url: string
+  captured_at: string
+  ejs_version: string
+  requests: Array<{ type: 'sig' | 'n'; challenges: string[] }>
+  expected: Partial<Record<'sig' | 'n', SolverOutcome>>
+}
+
+export type RegressionMode = 'player' | 'preprocessed' | 'cached'
+
+export interface RegressionMismatch {
+  type: 'sig' | 'n'
+  challenge?: string
+  expected: string
+  actual: string
+}
+
+export interface RegressionResult {
+  fixture: string
+  mode: RegressionMode
+  ok: boolean
+  ms: number
+  mismatches: RegressionMismatch[]
+  error?: string
+}
+
+/** What CacheStore.reconcile changed to match metadata and files again */
+export interface ReconcileStats {
+  /** Unlisted files given an entry */
+  adopted: number
+  /** Unlisted files removed because no entry could be made for them */
+  deleted: number
+  /** Entries removed because their file is gone */
+  dropped: number
+}
+
+/**
+ * Persistent storage behind cacheManager. Players are keyed by their cache
+ * key; preprocessed code and STS values by the player path the store hands
+ * out from `pathFor`. TTLs and eviction are decided by cacheManager.
+ */
+export interface CacheStore {
+  readonly name: string
+  init(): Promise<void>
+  pathFor(cacheKey: string): string
+  stats(): { players: number; processed: number }
+
+  getPlayer(cacheKey: string): Promise<PlayerRecord | undefined>
+  hasPlayerContent(cacheKey: string): Promise<boolean>
+  readPlayer(path: string): Promise<string>
+  putPlayer(
+    cacheKey: string,
+    record: PlayerRecord,
+    content: string
+  ): Promise<void>
+  touchPlayer(cacheKey: string, a: number): Promise<void>
+  deletePlayer(cacheKey: string): Promise<void>
+  listPlayers(): Promise<Array<[string, PlayerRecord]>>
+  playerSize(cacheKey: string): Promise<number>
+
+  getProcessed(path: string): Promise<ProcessedRecord | undefined>
+  readProcessed(path: string): Promise<string>
+  putProcessed(
+    path: string,
+    record: ProcessedRecord,
+    content: string
+  ): Promise<void>
+  touchProcessed(path: string, a: number): Promise<void>
+  deleteProcessed(path: string): Promise<void>
+  listProcessed(): Promise<Array<[string, ProcessedRecord]>>
+  processedSize(path: string): Promise<number>
+
+  getSts(path: string): Promise<{ sts: string; t: number } | undefined>
+  putSts(path: string, sts: string, t: number): Promise<void>
+  deleteSts(path: string): Promise<void>
+  purgeSts(before: number): Promise<void>
+
+  /** Persists anything buffered in memory */
+  flush(): Promise<void>
+  /** Throws unless the store can currently be written to */
+  checkWritable(): Promise<void>
+  /** Repairs drift between stored metadata and stored content */
+  reconcile(): Promise<ReconcileStats>
+}
+
 export interface RequestContext {
   req: Request
   body: ApiRequest
 }
 
-export type ApiRequest = SignatureRequest | StsRequest | ResolveUrlRequest
+export type ApiRequest =
+  | SignatureRequest
+  | BatchDecryptRequest
+  | StsRequest
+  | ResolveUrlRequest
+  | PlayerUploadRequest
@@ -0,0 +1,210 @@
+import { config } from './config.ts'
+import { createLogger } from './logger.ts'
+import { counter, gauge, histogram } from './metrics.ts'
+import { ApiError } from './shared.ts'
+
+const MAX_RETRY_DELAY = 10000
+
+const HEADERS = {
+  'User-Agent': config.upstream.user_agent,
+  ...config.upstream.headers
+}
+const PROXY = config.upstream.proxy || undefined
+const BASE_URL = config.upstream.base_url
+  ? new URL(config.upstream.base_url)
+  : undefined
+
+const log = createLogger('upstream')
+
+const fetchesTotal = counter(
+  'upstream_fetches_total',
+  'Player download attempts by result (success, retry, error)'
+)
+const fetchDuration = histogram(
+  'upstream_fetch_duration_seconds',
+  'Time spent on one player download attempt'
+)
+
+let failures = 0
+let openUntil = 0
+let probing = false
+
+class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean
+  ) {
+    super(message)
+  }
+}
+
+/** Points a youtube.com URL at the configured mirror, keeping the path */
+const _target = (url: string): string => {
+  if (!BASE_URL) return url
+  const source = new URL(url)
+  const target = new URL(BASE_URL)
+  target.pathname = `${BASE_URL.pathname.replace(/\/$/, '')}${source.pathname}`
+  target.search = source.search
+  return target.toString()
+}
+
+const _attempt = async (target: string): Promise<string> => {
+  const controller = new AbortController()
+  let timedOut: string | undefined
+  const arm = (ms: number, what: string) =>
+    setTimeout(() => {
+      timedOut = what
+      controller.abort()
+    }, ms)
+
+  // Time until response headers arrive, which covers connecting
+  const { connect_timeout, read_timeout } = config.upstream
+  let timer = arm(connect_timeout, `no response within ${connect_timeout}ms`)
+  try {
+    const res = await fetch(target, {
+      headers: HEADERS,
+      signal: controller.signal,
+      ...(PROXY && { proxy: PROXY })
+    })
+    clearTimeout(timer)
+
+    if (!res.ok) {
+      await res.body?.cancel()
+      throw new UpstreamError(
+        `HTTP ${res.status} ${res.statusText}`.trim(),
+        res.status >= 500 || res.status === 429
+      )
+    }
+    if (!res.body) return ''
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let text = ''
+    for (;;) {
+      // Longest pause allowed between two chunks of the body
+      timer = arm(read_timeout, `body stalled for ${read_timeout}ms`)
+      const { done, value } = await reader.read()
+      clearTimeout(timer)
+      if (done) break
+      text += decoder.decode(value, { stream: true })
+    }
+    return text + decoder.decode()
+  } catch (err) {
+    if (err instanceof UpstreamError) throw err
+    const reason = timedOut
+      ? `Timed out: ${timedOut}`
+      : err instanceof Error
+        ? err.message
+        : `${err}`
+    throw new UpstreamError(reason, true)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+const _download = async (target: string): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    const done = fetchDuration.startTimer()
+    try {
+      const text = await _attempt(target)
+      done({ result: 'success' })
+      fetchesTotal.inc({ result: 'success' })
+      return text
+    } catch (err) {
+      const { message, retryable } = err as UpstreamError
+      done({ result: 'error' })
+
+      const { retries, retry_delay } = config.upstream
+      if (!retryable || attempt > retries) {
+        fetchesTotal.inc({ result: 'error' })
+        log.warn('Player download failed', {
+          url: target,
+          attempts: attempt,
+          error: message
+        })
+        throw err
+      }
+
+      fetchesTotal.inc({ result: 'retry' })
+      const delay = Math.round(
+        Math.min(retry_delay * 2 ** (attempt - 1), MAX_RETRY_DELAY) *
+          (0.5 + Math.random() / 2)
+      )
+      log.warn('Player download failed, retrying', {
+        url: target,
+        attempt,
+        delay_ms: delay,
+        error: message
+      })
+      await Bun.sleep(delay)
+    }
+  }
+}
+
+/**
+ * Whether failures have reached the breaker threshold; 0 disables the
+ * breaker
+ */
+const _tripped = (): boolean =>
+  config.upstream.breaker_threshold > 0 &&
+  failures >= config.upstream.breaker_threshold
+
+/** Open once upstream keeps failing; downloads then fail fast until it cools down */
+const _circuitOpen = (now = Date.now()): boolean =>
+  _tripped() && (now < openUntil || probing)
+
+/** Whether downloads are currently being refused by the circuit breaker */
+export const isUpstreamDown = (): boolean => _circuitOpen()
+
+gauge(
+  'upstream_circuit_open',
+  'Whether player downloads are short-circuited after repeated failures',
+  () => [[{}, _circuitOpen() ? 1 : 0]]
+)
+
+/**
+ * Downloads a player script. Network errors, timeouts, 429 and 5xx are
+ * retried with exponential backoff and jitter; anything else fails at once.
+ * Throws PLAYER_FETCH_FAILED once the attempts are used up, or straight away
+ * while the circuit breaker is open.
+ */
+export const fetchPlayer = async (url: string): Promise<string> => {
+  if (_circuitOpen()) {
+    const wait = Math.max(0, Math.ceil((openUntil - Date.now()) / 1000))
+    throw new ApiError(
+      'PLAYER_FETCH_FAILED',
+      `Failed to fetch player: upstream unavailable, retrying in ${wait}s`
+    )
+  }
+  // Past the cooldown, one download goes through to probe upstream
+  const probe = _tripped()
+  if (probe) probing = true
+
+  try {
+    const text = await _download(_target(url))
+    if (probe) log.info('Upstream recovered, closing circuit')
+    failures = 0
+    return text
+  } catch (err) {
+    const { message, retryable } = err as UpstreamError
+    // A 4xx means upstream answered, so only outages count towards the breaker
+    if (!retryable) failures = 0
+    else {
+      failures++
+      if (_tripped()) {
+        const cooldown = config.upstream.breaker_cooldown
+        openUntil = Date.now() + cooldown
+        log.warn('Upstream keeps failing, opening circuit', {
+          failures,
+          cooldown_ms: cooldown
+        })
+      }
+    }
+    throw new ApiError(
+      'PLAYER_FETCH_FAILED',
+      `Failed to fetch player: ${message}`
+    )
+  } finally {
+    if (probe) probing = false
+  }
+}
@@ -1,5 +1,8 @@
+import { ApiError } from './shared.ts'
+
 const HOSTS = new Set(['youtube.com', 'www.youtube.com', 'm.youtube.com'])
 const PATH_PREFIX = '/s/player/'
+const PLAYER_ID_RE = /^[a-zA-Z0-9_-]+$/
 
 /** Map embed player variant to TV variant for TVHTML5 client support */
 const VARIANT_MAP: Record<string, string> = {
@@ -10,11 +13,11 @@ const VARIANT_MAP: Record<string, string> = {
 
 const forcePlayerPath = (pathname: string): string => {
   if (!pathname.startsWith(PATH_PREFIX))
-    throw new Error(`Invalid player path: ${pathname}`)
+    throw new ApiError('INVALID_PLAYER_URL', `Invalid player path: ${pathname}`)
 
   const parts = pathname.split('/')
   if (parts.length < 5 || parts[1] !== 's' || parts[2] !== 'player') {
-    throw new Error(`Invalid player path: ${pathname}`)
+    throw new ApiError('INVALID_PLAYER_URL', `Invalid player path: ${pathname}`)
   }
 
   const playerId = parts[3]
@@ -38,14 +41,23 @@ export const validateUrl = (url: string): string => {
   try {
     const parsed = new URL(url)
     if (!HOSTS.has(parsed.hostname))
-      throw new Error(`Player URL from invalid host: ${parsed.hostname}`)
+      throw new ApiError(
+        'INVALID_PLAYER_URL',
+        `Player URL from invalid host: ${parsed.hostname}`
+      )
     parsed.pathname = forcePlayerPath(parsed.pathname)
     return parsed.toString()
   } catch {
-    throw new Error(`Invalid player URL: ${url}`)
+    throw new ApiError('INVALID_PLAYER_URL', `Invalid player URL: ${url}`)
   }
 }
 
+/** Accepts a player URL or a bare player ID and returns a validated URL */
+export const resolvePlayerRef = (ref: string): string =>
+  PLAYER_ID_RE.test(ref)
+    ? validateUrl(`${PATH_PREFIX}${ref}/player_ias.vflset/en_US/base.js`)
+    : validateUrl(ref)
+
 export function extractPlayerId(playerUrl: string): string {
   try {
     const url = new URL(playerUrl)
@@ -62,3 +74,97 @@ export function extractPlayerId(playerUrl: string): string {
   }
   return 'unknown'
 }
+
+/**
+ * Shares one in-flight promise per key between concurrent callers, so the
+ * work runs once and every waiter gets the same result or error.
+ */
+export const createSingleFlight = <T>() => {
+  const inflight = new Map<string, Promise<T>>()
+  return {
+    get: (key: string): Promise<T> | undefined => inflight.get(key),
+    run(key: string, fn: () => Promise<T>): Promise<T> {
+      const existing = inflight.get(key)
+      if (existing) return existing
+      const promise = fn().finally(() => inflight.delete(key))
+      inflight.set(key, promise)
+      return promise
+    }
+  }
+}
+
+export interface Cidr {
+  v: 4 | 6
+  net: bigint
+  mask: bigint
+}
+
+const _parseV4 = (ip: string): bigint | null => {
+  const parts = ip.split('.')
+  if (parts.length !== 4) return null
+  let n = 0n
+  for (const p of parts) {
+    if (!/^\d{1,3}$/.test(p) || Number(p) > 255) return null
+    n = (n << 8n) | BigInt(p)
+  }
+  return n
+}
+
+const _parseV6 = (ip: string): bigint | null => {
+  let head = ip
+  let tail: bigint[] = []
+  // Embedded IPv4 in the last 32 bits, e.g. ::ffff:10.0.0.1
+  const lastColon = ip.lastIndexOf(':')
+  if (ip.includes('.', lastColon)) {
+    const v4 = _parseV4(ip.slice(lastColon + 1))
+    if (v4 === null) return null
+    head = `${ip.slice(0, lastColon + 1)}0:0`
+    tail = [v4]
+  }
+
+  const halves = head.split('::')
+  if (halves.length > 2) return null
+  const left = halves[0] ? halves[0].split(':') : []
+  const right = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - left.length - right.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  let n = 0n
+  for (const group of [...left, ...Array(missing).fill('0'), ...right]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null
+    n = (n << 16n) | BigInt(`0x${group}`)
+  }
+  return tail.length ? (n & ~0xffffffffn) | tail[0] : n
+}
+
+/** Parses an IP address; IPv4-mapped IPv6 addresses are treated as IPv4 */
+const _parseIp = (ip: string): { v: 4 | 6; n: bigint } | null => {
+  const v4 = _parseV4(ip)
+  if (v4 !== null) return { v: 4, n: v4 }
+  const v6 = _parseV6(ip.replace(/^\[|\]$/g, ''))
+  if (v6 === null) return null
+  if (v6 >> 32n === 0xffffn) return { v: 4, n: v6 & 0xffffffffn }
+  return { v: 6, n: v6 }
+}
+
+export const parseCidr = (cidr: string): Cidr => {
+  const [addr, bits, ...rest] = cidr.trim().split('/')
+  const ip = _parseIp(addr)
+  if (!ip) throw new Error(`Invalid CIDR: ${cidr}`)
+  const width = ip.v === 4 ? 32 : 128
+  // An empty prefix would otherwise read as /0 and match every address
+  const valid = bits === undefined || /^\d{1,3}$/.test(bits)
+  const prefix = bits === undefined ? width : Number(bits)
+  if (!valid || rest.length > 0 || prefix > width) {
+    throw new Error(`Invalid CIDR: ${cidr}`)
+  }
+  const mask =
+    ((1n << BigInt(width)) - 1n) ^ ((1n << BigInt(width - prefix)) - 1n)
+  return { v: ip.v, net: ip.n & mask, mask }
+}
+
+export const ipInCidrs = (ip: string, cidrs: Cidr[]): boolean => {
+  const parsed = _parseIp(ip)
+  if (!parsed) return false
+  return cidrs.some((c) => c.v === parsed.v && (parsed.n & c.mask) === c.net)
+}
@@ -1,6 +1,9 @@
-import { env } from 'bun'
-import { cpus } from 'os'
 import type { Input, Output } from '../ejs/src/yt/solver/main.ts'
+import { config, onConfigReload } from './config.ts'
+import { currentRequestId } from './context.ts'
+import { createLogger } from './logger.ts'
+import { cacheLookups, counter, gauge, histogram } from './metrics.ts'
+import { ApiError } from './shared.ts'
 
 interface Task {
   data: Input
@@ -8,47 +11,288 @@ interface Task {
   reject: (error: unknown) => void
   timeout?: NodeJS.Timeout
   id: number
+  // Request the task was queued for, echoed back by the worker
+  requestId?: string
+  queuedAt: number
+  startedAt?: number
+  // Epoch ms after which nobody is waiting for the result
+  deadline?: number
+  // Set once the caller got an answer, so a late worker reply is dropped
+  settled?: boolean
+  // Detaches the abort listener and deadline timer
+  release?: () => void
 }
 
-const CONCURRENCY =
-  parseInt(env.MAX_THREADS || '', 10) || Math.min(cpus().length, 8)
-const TIMEOUT = parseInt(env.WORKER_TIMEOUT || '', 10) || 60000
-const MAX_QUEUE_SIZE = 1000
+interface WorkerState {
+  tasks: number
+  idleSince: number
+  // Players whose solvers the worker has compiled, least recently used first
+  players: Set<string>
+  // Prewarmed players still to compile after the worker was spawned
+  warming: number
+}
+
+/** Lets callers give up on a task they no longer need */
+export interface ExecOptions {
+  signal?: AbortSignal
+  deadline?: number
+}
+
+const CONCURRENCY = config.workers.max_threads
+// Spawned at startup and never reaped, so the first requests find warm workers
+const MIN_WORKERS = config.workers.min
+// Idle workers above MIN_WORKERS are terminated after this long; 0 keeps them
+const IDLE_TIMEOUT = config.workers.idle_timeout
+// Must match worker.ts, so the pool knows which players a worker still holds
+const SOLVER_CACHE_SIZE = config.workers.solver_cache_size
+// Every new worker compiles all of these before its first task, so keep it
+// small; more than a worker can hold would only push each other out
+const MAX_WARM_PLAYERS = Math.min(10, SOLVER_CACHE_SIZE)
+const DRAIN_POLL_INT = 100
+// Timers fire after 1ms when given a longer delay than this
+const MAX_TIMER_DELAY = 2147483647
 const WORKER_PATH = new URL('../worker.ts', import.meta.url).href
 
+const log = createLogger('pool')
+
+// Prewarmed code stays in memory for new workers, so it is held to the same
+// limit as in-memory player sources; 0 lifts it
+const _warmBudget = (): number => config.cache.memory_mb * 1024 * 1024
+
 let taskIdCounter = 0
 
+const tasksTotal = counter(
+  'worker_tasks_total',
+  'Worker pool tasks by outcome (success, error, timeout, rejected, cancelled, expired)'
+)
+const replacementsTotal = counter(
+  'worker_replacements_total',
+  'Workers terminated and replaced after an error or timeout'
+)
+const affinityTotal = counter(
+  'worker_affinity_total',
+  'Task placement: hit (worker held the player), spread (no worker did), stolen (holders stayed busy), none (no player key)'
+)
+const retiredTotal = counter(
+  'worker_retired_total',
+  'Healthy workers terminated by reason (idle, max_tasks, heap)'
+)
+const queueWait = histogram(
+  'worker_queue_wait_seconds',
+  'Time tasks spend queued before a worker picks them up'
+)
+const taskDuration = histogram(
+  'worker_task_duration_seconds',
+  'Time a worker spends running a task'
+)
+
+const _cancelled = (): ApiError =>
+  new ApiError('REQUEST_CANCELLED', 'Request was cancelled by the client')
+const _expired = (): ApiError =>
+  new ApiError('DEADLINE_EXCEEDED', 'Request deadline passed before solving')
+
+const _cacheKeyOf = (task: Task): string | undefined =>
+  (task.data as { cacheKey?: string }).cacheKey
+
+/** Records that a worker holds a player, mirroring its solver cache LRU */
+const _hold = (state: WorkerState | undefined, cacheKey: string): void => {
+  if (!state) return
+  state.players.delete(cacheKey)
+  state.players.add(cacheKey)
+  if (state.players.size > SOLVER_CACHE_SIZE) {
+    const oldest = state.players.values().next().value
+    if (oldest !== undefined) state.players.delete(oldest)
+  }
+}
+
+const _observeDone = (task: Task, result: string): void => {
+  tasksTotal.inc({ result })
+  if (task.startedAt) {
+    taskDuration.observe(
+      { result },
+      (performance.now() - task.startedAt) / 1000
+    )
+  }
+}
+
 class WorkerPool {
   private workers: Worker[] = []
   private availableWorkers: Worker[] = []
   private queue: Task[] = []
   private taskMap = new Map<Worker, Task>()
+  // Prewarmed players (cacheKey -> preprocessed code), replayed to new workers
+  private warm = new Map<string, string>()
+  private warmBytes = 0
+  private state = new Map<Worker, WorkerState>()
+  private reaper?: ReturnType<typeof setInterval>
+  // Answers awaited from idle workers, and the ping run sharing them
+  private pongs = new Map<Worker, () => void>()
+  private pinging?: Promise<number>
+  // Re-runs dispatch when a task's affinity wait runs out
+  private affinityTimer?: ReturnType<typeof setTimeout>
 
   constructor(private size: number) {
-    // Lazy initialization: Workers are spawned in dispatch() as needed
+    // Lazy initialization: Workers beyond MIN_WORKERS are spawned in
+    // dispatch() as needed
+    this.ensureMinimum()
+    if (IDLE_TIMEOUT > 0) {
+      this.reaper = setInterval(
+        () => this.reapIdle(),
+        Math.min(Math.max(IDLE_TIMEOUT / 2, 1000), 60000)
+      )
+      this.reaper.unref()
+    }
   }
 
   private createWorker(): Worker {
-    const worker = new Worker(WORKER_PATH, { smol: true })
+    // Bun hands workerData to node:worker_threads in the worker, but its
+    // WorkerOptions type doesn't list it
+    const worker = new Worker(WORKER_PATH, {
+      smol: true,
+      workerData: { config }
+    } as Bun.WorkerOptions)
+    this.state.set(worker, {
+      tasks: 0,
+      idleSince: Date.now(),
+      players: new Set(),
+      warming: this.warm.size
+    })
     this.setupHandlers(worker)
+    for (const [cacheKey, code] of this.warm) {
+      this.sendCompile(worker, cacheKey, code)
+    }
     return worker
   }
 
+  /** Passes a reloaded configuration on to every worker */
+  sendConfig(): void {
+    for (const worker of this.workers) {
+      worker.postMessage({ op: 'config', config })
+    }
+  }
+
+  private sendCompile(worker: Worker, cacheKey: string, code: string): void {
+    worker.postMessage({ op: 'compile', cacheKey, preprocessed_player: code })
+  }
+
+  /** Adds a new idle worker to the pool */
+  private spawn(reason: string): void {
+    const worker = this.createWorker()
+    this.workers.push(worker)
+    this.availableWorkers.push(worker)
+    log.info('Worker spawned', { reason, workers: this.workers.length })
+  }
+
+  /** Terminates a worker that holds no task; in-flight tasks are never lost */
+  private retire(worker: Worker, reason: string): void {
+    const state = this.state.get(worker)
+    worker.terminate()
+    this.pongs.get(worker)?.()
+    this.workers = this.workers.filter((w) => w !== worker)
+    this.availableWorkers = this.availableWorkers.filter((w) => w !== worker)
+    this.state.delete(worker)
+    retiredTotal.inc({ reason })
+    log.info('Worker retired', {
+      reason,
+      tasks: state?.tasks,
+      workers: this.workers.length
+    })
+  }
+
+  private ensureMinimum(): void {
+    while (this.workers.length < MIN_WORKERS) this.spawn('minimum')
+  }
+
+  private reapIdle(): void {
+    const cutoff = Date.now() - IDLE_TIMEOUT
+    for (const worker of [...this.availableWorkers]) {
+      if (this.workers.length <= MIN_WORKERS) break
+      const state = this.state.get(worker)
+      if (state && state.idleSince <= cutoff) this.retire(worker, 'idle')
+    }
+  }
+
+  /**
+   * Why a worker that just finished a task should be replaced, if at all.
+   * Recycling after workers.max_tasks tasks or past workers.max_heap_mb
+   * sheds whatever it accumulated; 0 disables either.
+   */
+  private recycleReason(worker: Worker, heapUsed?: number): string | null {
+    const state = this.state.get(worker)
+    const { max_tasks, max_heap_mb } = config.workers
+    const maxHeap = max_heap_mb * 1024 * 1024
+    if (max_tasks > 0 && state && state.tasks >= max_tasks) return 'max_tasks'
+    if (maxHeap > 0 && heapUsed !== undefined && heapUsed > maxHeap) {
+      return 'heap'
+    }
+    return null
+  }
+
   private setupHandlers(worker: Worker): void {
     worker.onmessage = (e: MessageEvent) => {
+      if (e.data.type === 'pong') {
+        this.pongs.get(worker)?.()
+        return
+      }
+      if (e.data.type === 'compiled') {
+        const state = this.state.get(worker)
+        if (e.data.ok) _hold(state, e.data.cacheKey)
+        else {
+          log.error('Worker failed to prewarm player', {
+            cache_key: e.data.cacheKey,
+            error: e.data.error
+          })
+        }
+        if (state && state.warming > 0 && --state.warming === 0) {
+          this.checkWarm(state)
+        }
+        return
+      }
+
       const task = this.taskMap.get(worker)
       if (!task) return
 
       if (task.timeout) clearTimeout(task.timeout)
       this.taskMap.delete(worker)
-      this.availableWorkers.push(worker)
 
-      const { type, data } = e.data
+      const { type, data, solverCache, heapUsed } = e.data
+      const state = this.state.get(worker)
+      if (state) {
+        state.tasks++
+        state.idleSince = Date.now()
+      }
+      const recycle = this.recycleReason(worker, heapUsed)
+      if (recycle) {
+        this.retire(worker, recycle)
+        this.ensureMinimum()
+      } else {
+        this.availableWorkers.push(worker)
+      }
+
+      if (solverCache)
+        cacheLookups.inc({ cache: 'solver', result: solverCache })
+      const cacheKey = _cacheKeyOf(task)
+      if (cacheKey && type === 'success' && data.type === 'result') {
+        _hold(state, cacheKey)
+      }
+
+      // A caller that gave up already has its error; just free the worker
+      if (task.settled) {
+        this.dispatch()
+        return
+      }
 
       if (type === 'success') {
+        _observeDone(task, 'success')
         task.resolve(data)
       } else if (type === 'error') {
-        task.reject(new Error(data.message))
+        _observeDone(task, 'error')
+        log.warn('Worker task failed', {
+          request_id: task.requestId,
+          task_id: task.id,
+          error: data.message
+        })
+        task.reject(new ApiError('WORKER_FAILED', data.message))
       }
 
       this.dispatch()
@@ -56,10 +300,18 @@ class WorkerPool {
 
     worker.onerror = (error) => {
       const task = this.taskMap.get(worker)
+      log.error('Worker crashed', {
+        request_id: task?.requestId,
+        task_id: task?.id,
+        error: error.message
+      })
       if (task) {
         if (task.timeout) clearTimeout(task.timeout)
         this.taskMap.delete(worker)
-        task.reject(error)
+        if (!task.settled) _observeDone(task, 'error')
+        task.reject(
+          new ApiError('WORKER_FAILED', error.message || 'Worker crashed')
+        )
       }
 
       setTimeout(() => {
@@ -74,6 +326,9 @@ class WorkerPool {
     if (idx === -1) return
 
     oldWorker.terminate()
+    this.pongs.get(oldWorker)?.()
+    this.state.delete(oldWorker)
+    replacementsTotal.inc()
     const newWorker = this.createWorker()
     this.workers[idx] = newWorker
     this.availableWorkers.push(newWorker)
@@ -85,88 +340,420 @@ class WorkerPool {
       this.availableWorkers.length === 0 &&
       this.workers.length < this.size
     ) {
-      const worker = this.createWorker()
-      this.workers.push(worker)
-      this.availableWorkers.push(worker)
+      this.spawn('demand')
     }
 
-    while (this.availableWorkers.length > 0 && this.queue.length > 0) {
-      const worker = this.availableWorkers.shift()!
-      const task = this.queue.shift()!
+    const now = performance.now()
+    let retryIn = Infinity
+    for (
+      let i = 0;
+      i < this.queue.length && this.availableWorkers.length > 0;
+    ) {
+      const task = this.queue[i]
+      if (task.deadline !== undefined && task.deadline <= Date.now()) {
+        this.queue.splice(i, 1)
+        _observeDone(task, 'expired')
+        task.reject(_expired())
+        continue
+      }
+      const worker = this.pickWorker(task, now)
+      if (!worker) {
+        // Its player's holder is busy; later tasks may still go ahead
+        retryIn = Math.min(
+          retryIn,
+          task.queuedAt + config.workers.affinity_wait - now
+        )
+        i++
+        continue
+      }
+      this.queue.splice(i, 1)
+      this.availableWorkers.splice(this.availableWorkers.indexOf(worker), 1)
+      this.run(worker, task)
+    }
 
-      this.taskMap.set(worker, task)
+    clearTimeout(this.affinityTimer)
+    if (retryIn !== Infinity) {
+      this.affinityTimer = setTimeout(
+        () => this.dispatch(),
+        Math.max(retryIn, 1)
+      )
+    }
+  }
 
-      task.timeout = setTimeout(() => {
-        const currentTask = this.taskMap.get(worker)
-        if (currentTask?.id !== task.id) return
+  /**
+   * Chooses an idle worker for a task: one that already compiled its
+   * player, else the idle worker holding the fewest players so distinct
+   * players spread out. While a busy worker holds the player the task
+   * waits up to workers.affinity_wait for it, then any idle worker steals
+   * it.
+   */
+  private pickWorker(task: Task, now: number): Worker | undefined {
+    const cacheKey = _cacheKeyOf(task)
+    const holds = (w: Worker) =>
+      !!cacheKey && !!this.state.get(w)?.players.has(cacheKey)
 
-        this.taskMap.delete(worker)
-        task.reject(new Error(`Task timeout after ${TIMEOUT}ms`))
+    const holder = this.availableWorkers.find(holds)
+    if (holder) {
+      affinityTotal.inc({ result: 'hit' })
+      return holder
+    }
 
-        // Terminate and replace the worker since it might be stuck
-        worker.terminate()
-        const idx = this.workers.indexOf(worker)
-        if (idx !== -1) {
-          this.workers.splice(idx, 1)
-        }
-        // Create new worker on demand in dispatch()
-        this.dispatch()
-      }, TIMEOUT)
+    const held = this.workers.some(holds)
+    if (held && now - task.queuedAt < config.workers.affinity_wait) {
+      return undefined
+    }
 
-      worker.postMessage(task.data)
+    let best = this.availableWorkers[0]
+    for (const w of this.availableWorkers) {
+      const size = this.state.get(w)?.players.size ?? 0
+      if (size < (this.state.get(best)?.players.size ?? 0)) best = w
     }
+    affinityTotal.inc({
+      result: !cacheKey ? 'none' : held ? 'stolen' : 'spread'
+    })
+    return best
   }
 
-  exec(data: Input): Promise<Output> {
-    if (this.queue.length >= MAX_QUEUE_SIZE) {
+  private run(worker: Worker, task: Task): void {
+    this.taskMap.set(worker, task)
+    task.startedAt = performance.now()
+    queueWait.observe({}, (task.startedAt - task.queuedAt) / 1000)
+
+    const timeout = config.workers.timeout
+    task.timeout = setTimeout(() => {
+      const currentTask = this.taskMap.get(worker)
+      if (currentTask?.id !== task.id) return
+
+      this.taskMap.delete(worker)
+      if (!task.settled) _observeDone(task, 'timeout')
+      log.warn('Worker task timed out, replacing worker', {
+        request_id: task.requestId,
+        task_id: task.id,
+        timeout_ms: timeout
+      })
+      task.reject(
+        new ApiError('WORKER_TIMEOUT', `Task timeout after ${timeout}ms`)
+      )
+
+      // Terminate and replace the worker since it might be stuck
+      worker.terminate()
+      replacementsTotal.inc()
+      const idx = this.workers.indexOf(worker)
+      if (idx !== -1) {
+        this.workers.splice(idx, 1)
+      }
+      this.state.delete(worker)
+      // Create new worker on demand in dispatch()
+      this.ensureMinimum()
+      this.dispatch()
+    }, timeout)
+
+    worker.postMessage({
+      ...task.data,
+      id: task.id,
+      requestId: task.requestId
+    })
+  }
+
+  exec(data: Input, { signal, deadline }: ExecOptions = {}): Promise<Output> {
+    if (signal?.aborted) {
+      tasksTotal.inc({ result: 'cancelled' })
+      return Promise.reject(_cancelled())
+    }
+    if (deadline !== undefined && deadline <= Date.now()) {
+      tasksTotal.inc({ result: 'expired' })
+      return Promise.reject(_expired())
+    }
+    if (this.queue.length >= config.workers.max_queue) {
+      tasksTotal.inc({ result: 'rejected' })
       return Promise.reject(
-        new Error('Worker pool queue is full, try again later')
+        new ApiError('QUEUE_FULL', 'Worker pool queue is full, try again later')
       )
     }
 
     return new Promise((resolve, reject) => {
-      const id = ++taskIdCounter
-      this.queue.push({ data, resolve, reject, id })
+      const task: Task = {
+        data,
+        resolve: (output) => {
+          if (this.settle(task)) resolve(output)
+        },
+        reject: (error) => {
+          if (this.settle(task)) reject(error)
+        },
+        id: ++taskIdCounter,
+        requestId: currentRequestId(),
+        queuedAt: performance.now(),
+        deadline
+      }
+
+      if (signal || deadline !== undefined) {
+        const onAbort = () => this.abandon(task, 'cancelled', _cancelled())
+        const timer =
+          deadline !== undefined
+            ? setTimeout(
+                () => this.abandon(task, 'expired', _expired()),
+                Math.min(deadline - Date.now(), MAX_TIMER_DELAY)
+              )
+            : undefined
+        signal?.addEventListener('abort', onAbort, { once: true })
+        task.release = () => {
+          signal?.removeEventListener('abort', onAbort)
+          clearTimeout(timer)
+        }
+      }
+
+      this.queue.push(task)
       this.dispatch()
     })
   }
 
+  /** Marks a task answered; false if it already was */
+  private settle(task: Task): boolean {
+    if (task.settled) return false
+    task.settled = true
+    task.release?.()
+    return true
+  }
+
+  /**
+   * Fails a task whose caller stopped waiting. Queued tasks are dropped;
+   * a running task keeps its worker until it finishes, since a solve
+   * cannot be interrupted short of terminating the worker.
+   */
+  private abandon(task: Task, result: string, error: ApiError): void {
+    if (task.settled) return
+    const idx = this.queue.indexOf(task)
+    if (idx !== -1) this.queue.splice(idx, 1)
+    _observeDone(task, result)
+    log.debug('Task abandoned by caller', {
+      request_id: task.requestId,
+      task_id: task.id,
+      reason: result,
+      running: idx === -1
+    })
+    task.reject(error)
+  }
+
+  /**
+   * Compiles a player's solvers in every live worker and remembers it so
+   * workers spawned later compile it too. Returns the number of workers
+   * the player was sent to.
+   */
+  warmup(cacheKey: string, code: string): number {
+    this.forget(cacheKey)
+    this.warm.set(cacheKey, code)
+    this.warmBytes += code.length
+    const budget = _warmBudget()
+    while (
+      this.warm.size > MAX_WARM_PLAYERS ||
+      (budget > 0 && this.warmBytes > budget)
+    ) {
+      const oldest = this.warm.keys().next().value
+      if (oldest === undefined) break
+      this.forget(oldest)
+    }
+
+    for (const worker of this.workers) {
+      this.sendCompile(worker, cacheKey, code)
+    }
+    return this.workers.length
+  }
+
+  /** Reports prewarmed players a new worker came up without */
+  private checkWarm(state: WorkerState): void {
+    const missing = [...this.warm.keys()].filter((k) => !state.players.has(k))
+    if (missing.length > 0) {
+      log.warn('Worker is missing prewarmed players', {
+        players: this.warm.size,
+        missing: missing.length
+      })
+    } else {
+      log.debug('Worker prewarmed', { players: this.warm.size })
+    }
+  }
+
+  private forget(cacheKey: string): void {
+    this.warmBytes -= this.warm.get(cacheKey)?.length ?? 0
+    this.warm.delete(cacheKey)
+  }
+
+  /** Drops compiled solvers for one player, or for all players, everywhere */
+  evict(cacheKey?: string): void {
+    if (cacheKey) this.forget(cacheKey)
+    else {
+      this.warm.clear()
+      this.warmBytes = 0
+    }
+
+    for (const worker of this.workers) {
+      const players = this.state.get(worker)?.players
+      if (cacheKey) players?.delete(cacheKey)
+      else players?.clear()
+      worker.postMessage({ op: 'evict', cacheKey })
+    }
+  }
+
+  /** Age of the longest-running task, 0 when every worker is idle */
+  /**
+   * Pings every idle worker and resolves to the number that did not answer
+   * within `timeout`. Busy workers answer only after their task, so the
+   * oldest task check covers them. Concurrent calls share one run.
+   */
+  ping(timeout: number): Promise<number> {
+    this.pinging ??= Promise.all(
+      this.availableWorkers.map(
+        (worker) =>
+          new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => {
+              this.pongs.delete(worker)
+              resolve(false)
+            }, timeout)
+            this.pongs.set(worker, () => {
+              clearTimeout(timer)
+              this.pongs.delete(worker)
+              resolve(true)
+            })
+            worker.postMessage({ op: 'ping' })
+          })
+      )
+    )
+      .then((answers) => answers.filter((ok) => !ok).length)
+      .finally(() => {
+        this.pinging = undefined
+      })
+    return this.pinging
+  }
+
+  oldestTaskMs(): number {
+    const now = performance.now()
+    let oldest = 0
+    for (const task of this.taskMap.values()) {
+      if (task.startedAt) oldest = Math.max(oldest, now - task.startedAt)
+    }
+    return oldest
+  }
+
+  stats(): { queued: number; busy: number; idle: number } {
+    return {
+      queued: this.queue.length,
+      busy: this.taskMap.size,
+      idle: this.availableWorkers.length
+    }
+  }
+
   shutdown(): void {
+    clearInterval(this.reaper)
+    clearTimeout(this.affinityTimer)
     for (const worker of this.workers) {
       worker.terminate()
     }
     // Reject all pending tasks
     for (const task of this.queue) {
       if (task.timeout) clearTimeout(task.timeout)
-      task.reject(new Error('Worker pool shutting down'))
+      task.reject(new ApiError('SHUTTING_DOWN', 'Worker pool shutting down'))
     }
     for (const [, task] of this.taskMap) {
       if (task.timeout) clearTimeout(task.timeout)
-      task.reject(new Error('Worker pool shutting down'))
+      task.reject(new ApiError('SHUTTING_DOWN', 'Worker pool shutting down'))
     }
     this.workers = []
     this.availableWorkers = []
     this.queue = []
     this.taskMap.clear()
+    this.state.clear()
   }
 }
 
 let pool: WorkerPool | null = null
 
+onConfigReload(() => pool?.sendConfig())
+
+gauge('worker_queue_depth', 'Tasks waiting for a free worker', () => [
+  [{}, pool?.stats().queued ?? 0]
+])
+gauge('workers', 'Spawned workers by state (busy or idle)', () => {
+  const stats = pool?.stats()
+  return [
+    [{ state: 'busy' }, stats?.busy ?? 0],
+    [{ state: 'idle' }, stats?.idle ?? 0]
+  ]
+})
+
 export const initWorkers = (): void => {
   if (!pool) {
     pool = new WorkerPool(CONCURRENCY)
-    console.log(
-      `Initialized lazy worker pool (max ${CONCURRENCY} workers, timeout ${TIMEOUT}ms)`
+    log.info(
+      `Initialized lazy worker pool (${MIN_WORKERS}-${CONCURRENCY} workers, timeout ${config.workers.timeout}ms)`
     )
   }
 }
 
-export const execInPool = (data: Input): Promise<Output> => {
+/**
+ * Runs a solver input in the pool. The task is dropped if `signal` aborts
+ * or `deadline` (epoch ms) passes before it gets an answer.
+ */
+export const execInPool = (
+  data: Input,
+  options?: ExecOptions
+): Promise<Output> => {
+  if (!pool) {
+    throw new Error('Worker pool not initialized')
+  }
+  return pool.exec(data, options)
+}
+
+/**
+ * Snapshot for the liveness probe, or undefined before initWorkers. A task
+ * running well past workers.timeout means the timeout handling is wedged.
+ */
+export const poolHealth = ():
+  | {
+      workers: number
+      queued: number
+      busy: number
+      idle: number
+      oldest_task_ms: number
+      timeout_ms: number
+    }
+  | undefined => {
+  if (!pool) return undefined
+  const stats = pool.stats()
+  return {
+    ...stats,
+    workers: stats.busy + stats.idle,
+    oldest_task_ms: Math.round(pool.oldestTaskMs()),
+    timeout_ms: config.workers.timeout
+  }
+}
+
+/** Idle workers that missed a ping; undefined before initWorkers */
+export const pingWorkers = (timeout: number): Promise<number> | undefined =>
+  pool?.ping(timeout)
+
+export const warmWorkers = (cacheKey: string, code: string): number => {
   if (!pool) {
     throw new Error('Worker pool not initialized')
   }
-  return pool.exec(data)
+  return pool.warmup(cacheKey, code)
+}
+
+export const evictFromWorkers = (cacheKey?: string): void => {
+  pool?.evict(cacheKey)
+}
+
+/**
+ * Resolves with true once no task is queued or running, or with false after
+ * `timeoutMs`. Tasks may still be submitted meanwhile, and are waited for.
+ */
+export const drainWorkers = async (timeoutMs: number): Promise<boolean> => {
+  const until = Date.now() + timeoutMs
+  while (pool) {
+    const { queued, busy } = pool.stats()
+    if (queued === 0 && busy === 0) return true
+    if (Date.now() >= until) return false
+    await Bun.sleep(DRAIN_POLL_INT)
+  }
+  return true
 }
 
 export const shutdownWorkers = (): void => {
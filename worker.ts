@@ -1,22 +1,97 @@
 import main, { type Input, type Output } from './ejs/src/yt/solver/main.ts'
 import { getFromPrepared } from './ejs/src/yt/solver/solvers.ts'
+import { applyConfig, type Config, config } from './src/config.ts'
+import { createLogger } from './src/logger.ts'
 
 // biome-ignore lint/suspicious/noVar: declare var self is standard for Web Workers
 declare var self: Worker
 
+const log = createLogger('worker')
+
+// Compiled solvers per player, least recently used first
+const SOLVER_CACHE_SIZE = config.workers.solver_cache_size
+
 // biome-ignore lint/suspicious/noExplicitAny: solver cache holds functions of dynamic signatures
 const solverCache = new Map<string, any>()
 
+// biome-ignore lint/suspicious/noExplicitAny: solver cache holds functions of dynamic signatures
+const cacheSolvers = (cacheKey: string, solvers: any): void => {
+  solverCache.delete(cacheKey)
+  solverCache.set(cacheKey, solvers)
+  if (solverCache.size > SOLVER_CACHE_SIZE) {
+    const oldest = solverCache.keys().next().value
+    if (oldest !== undefined) solverCache.delete(oldest)
+  }
+}
+
+// Control messages from the pool: compile solvers ahead of traffic, or
+// drop compiled solvers for one player (or all of them without a cacheKey)
+interface CompileMessage {
+  op: 'compile'
+  cacheKey: string
+  preprocessed_player: string
+}
+
+interface EvictMessage {
+  op: 'evict'
+  cacheKey?: string
+}
+
+// The main thread's configuration after a reload
+interface ConfigMessage {
+  op: 'config'
+  config: Config
+}
+
+// Liveness check: answered at once, so a reply shows the worker is responsive
+interface PingMessage {
+  op: 'ping'
+}
+
+const compile = ({ cacheKey, preprocessed_player }: CompileMessage): void => {
+  try {
+    if (!solverCache.has(cacheKey)) {
+      cacheSolvers(cacheKey, getFromPrepared(preprocessed_player))
+    }
+    self.postMessage({ type: 'compiled', cacheKey, ok: true })
+  } catch (error) {
+    self.postMessage({
+      type: 'compiled',
+      cacheKey,
+      ok: false,
+      error: error instanceof Error ? error.message : `${error}`
+    })
+  }
+}
+
 self.onmessage = async (
-  e: MessageEvent<Input & { id: number; cacheKey?: string }>
+  e: MessageEvent<
+    | (Input & { id: number; requestId?: string; cacheKey?: string })
+    | CompileMessage
+    | EvictMessage
+    | ConfigMessage
+    | PingMessage
+  >
 ) => {
-  const { id, ...input } = e.data
+  if ('op' in e.data) {
+    if (e.data.op === 'ping') self.postMessage({ type: 'pong' })
+    else if (e.data.op === 'compile') compile(e.data)
+    else if (e.data.op === 'config') applyConfig(e.data.config)
+    else if (e.data.cacheKey) solverCache.delete(e.data.cacheKey)
+    else solverCache.clear()
+    return
+  }
+
+  const { id, requestId, ...input } = e.data
   try {
     let output: Output
+    let solverCacheResult: 'hit' | 'miss' | undefined
     const cacheKey = input.cacheKey
 
     if (cacheKey && solverCache.has(cacheKey)) {
+      solverCacheResult = 'hit'
       const solvers = solverCache.get(cacheKey)
+      cacheSolvers(cacheKey, solvers)
       const responses = input.requests.map((req) => {
         const solver = solvers[req.type]
         if (!solver) {
@@ -33,12 +108,15 @@ self.onmessage = async (
             )
           }
         } catch (error) {
+          // Stack traces stay in the worker log, never in API responses
+          log.warn(`${req.type} solver failed`, {
+            request_id: requestId,
+            cache_key: cacheKey,
+            error
+          })
           return {
             type: 'error' as const,
-            error:
-              error instanceof Error
-                ? `${error.message}\n${error.stack}`
-                : `${error}`
+            error: error instanceof Error ? error.message : `${error}`
           }
         }
       })
@@ -47,6 +125,7 @@ self.onmessage = async (
         responses
       }
     } else {
+      if (cacheKey) solverCacheResult = 'miss'
       output = main(input as Input)
       if (cacheKey && output.type === 'result') {
         const preprocessedCode =
@@ -55,24 +134,36 @@ self.onmessage = async (
             : output.preprocessed_player
         if (preprocessedCode) {
           try {
-            const solvers = getFromPrepared(preprocessedCode)
-            solverCache.set(cacheKey, solvers)
+            cacheSolvers(cacheKey, getFromPrepared(preprocessedCode))
           } catch (err) {
-            console.error('Worker failed to compile and cache solvers:', err)
+            log.error('Failed to compile and cache solvers', {
+              request_id: requestId,
+              cache_key: cacheKey,
+              error: err
+            })
           }
         }
       }
     }
 
     // Use simple object fast path for postMessage
-    self.postMessage({ type: 'success', id, data: output })
+    self.postMessage({
+      type: 'success',
+      id,
+      requestId,
+      data: output,
+      solverCache: solverCacheResult,
+      heapUsed: process.memoryUsage().heapUsed
+    })
   } catch (error) {
-    const err = error as Error
+    log.error('Task failed', { request_id: requestId, error })
     // Use simple object fast path for postMessage
     self.postMessage({
       type: 'error',
       id,
-      data: { message: err.message, stack: err.stack }
+      requestId,
+      data: { message: error instanceof Error ? error.message : `${error}` },
+      heapUsed: process.memoryUsage().heapUsed
     })
   }
 }